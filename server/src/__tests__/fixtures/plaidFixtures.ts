@@ -70,3 +70,22 @@ export async function createAccountSelection(
   });
 }
 
+
+/**
+ * Track credit cards for a user
+ */
+export async function createTrackedAccounts(
+  prisma: PrismaClient,
+  userId: string,
+  accounts: { accountId: string; enabled?: boolean }[]
+): Promise<void> {
+  for (const account of accounts) {
+    await prisma.trackedAccount.create({
+      data: {
+        userId,
+        accountId: account.accountId,
+        enabled: account.enabled ?? true,
+      },
+    });
+  }
+}
@@ -13,6 +13,9 @@ export interface TestTransaction {
   name: string;
   amount: number;
   pending: boolean;
+  pendingTransactionId?: string | null;
+  retiredAt?: Date | null;
+  isPayment?: boolean;
 }
 
 /**
@@ -33,6 +36,9 @@ export async function createTestTransaction(
       name: overrides?.name || 'Test Transaction',
       amount: overrides?.amount || 10.50,
       pending: overrides?.pending ?? false,
+      pendingTransactionId: overrides?.pendingTransactionId ?? null,
+      retiredAt: overrides?.retiredAt ?? null,
+      isPayment: overrides?.isPayment ?? false,
     },
   });
 
@@ -45,6 +51,9 @@ export async function createTestTransaction(
     name: transaction.name,
     amount: Number(transaction.amount),
     pending: transaction.pending,
+    pendingTransactionId: transaction.pendingTransactionId,
+    retiredAt: transaction.retiredAt,
+    isPayment: transaction.isPayment,
   };
 }
 
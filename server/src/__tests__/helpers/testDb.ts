@@ -21,12 +21,22 @@ export function createTestDb(): PrismaClient {
 export async function cleanDatabase(prisma: PrismaClient): Promise<void> {
   // Delete in correct order to respect foreign key constraints
   await prisma.balanceSnapshot.deleteMany();
+  await prisma.dailyReportPayment.deleteMany();
+  await prisma.dailyReportAccount.deleteMany();
+  await prisma.dailyReportCurrency.deleteMany();
   await prisma.dailyReport.deleteMany();
   await prisma.transaction.deleteMany();
   await prisma.accountSelection.deleteMany();
+  await prisma.trackedAccount.deleteMany();
   await prisma.device.deleteMany();
+  await prisma.creditLiability.deleteMany();
+  await prisma.account.deleteMany();
+  await prisma.plaidItemSyncState.deleteMany();
   await prisma.plaidItem.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.plaidItemRemoval.deleteMany();
+  await prisma.webhookEvent.deleteMany();
+  await prisma.schedulerLease.deleteMany();
 }
 
 /**
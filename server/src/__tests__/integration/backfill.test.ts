@@ -0,0 +1,111 @@
+/**
+ * Integration tests for historical backfill
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { createTestUser } from '../fixtures/userFixtures';
+import { createTestPlaidItem, createTrackedAccounts } from '../fixtures/plaidFixtures';
+import { createTestTransaction } from '../fixtures/transactionFixtures';
+import { PrismaClient } from '@prisma/client';
+import { recomputeDailyReportsForRange } from '../../jobs/computeDailyReports';
+import { runItemBackfill } from '../../jobs/backfillItems';
+import { calendarDateToInstant, localDateOfReportKey } from '../../utils/localDate';
+
+const TIMEZONE = 'America/New_York';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Historical Backfill', () => {
+  let prisma: PrismaClient;
+  let userId: string;
+  let plaidItemId: string;
+  const creditAccountId = 'backfill-credit-account';
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+
+    const user = await createTestUser(prisma, { timezone: TIMEZONE });
+    userId = user.id;
+
+    const plaidItem = await createTestPlaidItem(prisma, userId);
+    plaidItemId = plaidItem.id;
+
+    await prisma.account.create({
+      data: { userId, plaidItemId, accountId: creditAccountId, name: 'Test Card', type: 'credit' },
+    });
+    await createTrackedAccounts(prisma, userId, [{ accountId: creditAccountId }]);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  it('should create a report for every day in the range, including days without spending', async () => {
+    await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: 42,
+    });
+
+    const progress: number[] = [];
+    const days = await recomputeDailyReportsForRange(userId, '2026-03-01', '2026-03-05', async completed => {
+      progress.push(completed);
+    });
+
+    expect(days).toBe(5);
+    expect(progress).toEqual([5]);
+
+    const reports = await prisma.dailyReport.findMany({
+      where: { userId },
+      orderBy: { date: 'asc' },
+    });
+    expect(reports).toHaveLength(5);
+    expect(reports.map(r => localDateOfReportKey(r.date))).toEqual([
+      '2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05',
+    ]);
+    expect(reports.map(r => Number(r.totalAmount))).toEqual([0, 42, 0, 0, 0]);
+  });
+
+  it('should fill in history once the user tracks a card on the item', async () => {
+    await prisma.plaidItem.update({
+      where: { id: plaidItemId },
+      data: {
+        backfillStatus: 'waiting_for_accounts',
+        backfillDaysRequested: 10,
+        backfillStartedAt: new Date(),
+      },
+    });
+
+    await runItemBackfill(plaidItemId);
+
+    const item = await prisma.plaidItem.findUniqueOrThrow({ where: { id: plaidItemId } });
+    expect(item.backfillStatus).toBe('complete');
+    expect(item.backfillDaysCompleted).toBe(item.backfillDaysTotal);
+    expect(item.backfillCompletedAt).not.toBeNull();
+
+    const yesterday = formatInTimeZone(new Date(Date.now() - DAY_MS), TIMEZONE, 'yyyy-MM-dd');
+    const latest = await prisma.dailyReport.findFirst({
+      where: { userId },
+      orderBy: { date: 'desc' },
+    });
+    expect(localDateOfReportKey(latest!.date)).toBe(yesterday);
+    expect(await prisma.dailyReport.count({ where: { userId } })).toBe(item.backfillDaysTotal);
+  });
+
+  it('should keep waiting while no card on the item is tracked', async () => {
+    await prisma.trackedAccount.deleteMany({ where: { userId } });
+    await prisma.plaidItem.update({
+      where: { id: plaidItemId },
+      data: { backfillStatus: 'waiting_for_accounts', backfillStartedAt: new Date() },
+    });
+
+    await runItemBackfill(plaidItemId);
+
+    const item = await prisma.plaidItem.findUniqueOrThrow({ where: { id: plaidItemId } });
+    expect(item.backfillStatus).toBe('waiting_for_accounts');
+    expect(await prisma.dailyReport.count({ where: { userId } })).toBe(0);
+  });
+});
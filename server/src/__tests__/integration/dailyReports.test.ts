@@ -0,0 +1,84 @@
+/**
+ * Integration tests for recomputing daily reports after transactions change
+ */
+
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { createTestUser } from '../fixtures/userFixtures';
+import { createTrackedAccounts } from '../fixtures/plaidFixtures';
+import { createTestTransaction } from '../fixtures/transactionFixtures';
+import { PrismaClient } from '@prisma/client';
+import { recomputeDailyReportsForDays } from '../../jobs/computeDailyReports';
+import { calendarDateToInstant, reportDateKey } from '../../utils/localDate';
+
+const TIMEZONE = 'America/New_York';
+
+describe('Daily Report Recomputation', () => {
+  let prisma: PrismaClient;
+  let userId: string;
+  const creditAccountId = 'reports-credit-account';
+
+  async function reportTotal(day: string) {
+    const report = await prisma.dailyReport.findUnique({
+      where: { userId_date: { userId, date: reportDateKey(day) } },
+    });
+    return report ? Number(report.totalAmount) : null;
+  }
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+
+    const user = await createTestUser(prisma, { timezone: TIMEZONE });
+    userId = user.id;
+
+    await createTrackedAccounts(prisma, userId, [{ accountId: creditAccountId }]);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  it('should refresh both the old and new day when a transaction moves', async () => {
+    const transaction = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: 30,
+    });
+
+    await recomputeDailyReportsForDays(userId, ['2026-03-02']);
+    expect(await reportTotal('2026-03-02')).toBeCloseTo(30, 2);
+
+    // Posted two days later than the pending charge, for a different amount
+    await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: { date: calendarDateToInstant('2026-03-04', TIMEZONE), amount: 32.5 },
+    });
+
+    await recomputeDailyReportsForDays(userId, ['2026-03-04', '2026-03-02', '2026-03-04']);
+
+    expect(await reportTotal('2026-03-02')).toBe(0);
+    expect(await reportTotal('2026-03-04')).toBeCloseTo(32.5, 2);
+    expect(await reportTotal('2026-03-03')).toBeNull();
+  });
+
+  it('should keep a day marked as paid when its total is recomputed', async () => {
+    await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: 30,
+    });
+    await recomputeDailyReportsForDays(userId, ['2026-03-02']);
+    await prisma.dailyReport.updateMany({ where: { userId }, data: { markedPaidAt: new Date() } });
+
+    await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: 5,
+    });
+    await recomputeDailyReportsForDays(userId, ['2026-03-02']);
+
+    const report = await prisma.dailyReport.findFirstOrThrow({ where: { userId } });
+    expect(Number(report.totalAmount)).toBeCloseTo(35, 2);
+    expect(report.markedPaidAt).not.toBeNull();
+  });
+});
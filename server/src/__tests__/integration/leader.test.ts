@@ -0,0 +1,60 @@
+/**
+ * Integration tests for scheduler leader election
+ */
+
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { PrismaClient } from '@prisma/client';
+import { instanceId, tryAcquireLease } from '../../jobs/leader';
+
+describe('Scheduler Leader Election', () => {
+  let prisma: PrismaClient;
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  it('should acquire the lease when nobody holds it', async () => {
+    await expect(tryAcquireLease()).resolves.toBe(true);
+
+    const lease = await prisma.schedulerLease.findUnique({ where: { name: 'scheduler' } });
+    expect(lease?.holderId).toBe(instanceId);
+  });
+
+  it('should renew a lease it already holds', async () => {
+    const now = new Date();
+    await tryAcquireLease(now);
+
+    const later = new Date(now.getTime() + 10 * 1000);
+    await expect(tryAcquireLease(later)).resolves.toBe(true);
+
+    const lease = await prisma.schedulerLease.findUnique({ where: { name: 'scheduler' } });
+    expect(lease?.renewedAt.getTime()).toBe(later.getTime());
+  });
+
+  it('should not take over an unexpired lease held by another instance', async () => {
+    await prisma.schedulerLease.create({
+      data: { name: 'scheduler', holderId: 'other-instance', expiresAt: new Date(Date.now() + 30 * 1000) },
+    });
+
+    await expect(tryAcquireLease()).resolves.toBe(false);
+  });
+
+  it('should take over once the other instance stops renewing', async () => {
+    await prisma.schedulerLease.create({
+      data: { name: 'scheduler', holderId: 'other-instance', expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    await expect(tryAcquireLease()).resolves.toBe(true);
+
+    const lease = await prisma.schedulerLease.findUnique({ where: { name: 'scheduler' } });
+    expect(lease?.holderId).toBe(instanceId);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Integration tests for matching card payments against daily reports
+ */
+
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { createTestUser } from '../fixtures/userFixtures';
+import { createAccountSelection, createTrackedAccounts } from '../fixtures/plaidFixtures';
+import { createTestTransaction } from '../fixtures/transactionFixtures';
+import { PrismaClient } from '@prisma/client';
+import { applyCardPayments } from '../../utils/payments';
+import { getUnpaidBalance } from '../../utils/paymentStatus';
+import { removePlaidTransactions } from '../../jobs/syncTransactions';
+import { calendarDateToInstant, reportDateKey } from '../../utils/localDate';
+
+const TIMEZONE = 'America/New_York';
+
+describe('Card Payment Matching', () => {
+  let prisma: PrismaClient;
+  let userId: string;
+  const creditAccountId = 'payments-credit-account';
+  const checkingAccountId = 'payments-checking-account';
+
+  async function createReport(day: string, amount: number) {
+    return prisma.dailyReport.create({
+      data: {
+        userId,
+        date: reportDateKey(day),
+        totalAmount: amount,
+        purchasesAmount: amount,
+        amountOwed: amount,
+      },
+    });
+  }
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+
+    const user = await createTestUser(prisma, { timezone: TIMEZONE });
+    userId = user.id;
+    await prisma.user.update({
+      where: { id: userId },
+      data: { createdAt: new Date('2026-02-01T12:00:00.000Z') },
+    });
+
+    await createTrackedAccounts(prisma, userId, [{ accountId: creditAccountId }]);
+    await createAccountSelection(prisma, userId, creditAccountId, checkingAccountId);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  it('should mark the oldest unpaid days covered by a payment as paid', async () => {
+    const first = await createReport('2026-03-01', 40);
+    const second = await createReport('2026-03-02', 50);
+    const third = await createReport('2026-03-03', 30);
+
+    const payment = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      name: 'AUTOPAY PAYMENT - THANK YOU',
+      amount: -100,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(2);
+
+    const reports = await prisma.dailyReport.findMany({
+      where: { userId },
+      orderBy: { date: 'asc' },
+      include: { payments: true },
+    });
+    expect(reports.map(r => r.id)).toEqual([first.id, second.id, third.id]);
+    expect(reports.map(r => !!r.markedPaidAt)).toEqual([true, true, false]);
+    expect(reports.map(r => r.paidAmount && Number(r.paidAmount))).toEqual([40, 50, null]);
+    expect(reports[0].payments).toEqual([expect.objectContaining({ transactionId: payment.id })]);
+
+    const stored = await prisma.transaction.findUniqueOrThrow({ where: { id: payment.id } });
+    expect(stored.paymentAppliedAt).not.toBeNull();
+
+    // Each payment is only applied once
+    await expect(applyCardPayments(userId)).resolves.toBe(0);
+  });
+
+  it('should leave backfilled days from before sign-up alone', async () => {
+    const backfilled = await createReport('2026-01-20', 25);
+    const afterSignUp = await createReport('2026-03-01', 40);
+
+    await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      amount: -40,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+
+    const reports = await prisma.dailyReport.findMany({ where: { userId }, include: { payments: true } });
+    const byId = new Map(reports.map(r => [r.id, r]));
+    expect(byId.get(backfilled.id)!.markedPaidAt).toBeNull();
+    expect(byId.get(backfilled.id)!.payments).toEqual([]);
+    expect(byId.get(afterSignUp.id)!.markedPaidAt).not.toBeNull();
+  });
+
+  it('should put what a payment leaves over towards the next day', async () => {
+    const first = await createReport('2026-03-01', 30);
+    const second = await createReport('2026-03-02', 80);
+
+    const payment = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      amount: -100,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+
+    const reports = await prisma.dailyReport.findMany({
+      where: { userId },
+      orderBy: { date: 'asc' },
+      include: { payments: true },
+    });
+    expect(reports.map(r => r.id)).toEqual([first.id, second.id]);
+    expect(reports.map(r => !!r.markedPaidAt)).toEqual([true, false]);
+    expect(reports.map(r => r.payments.map(p => [p.source, p.transactionId, Number(p.amount)]))).toEqual([
+      [['card', payment.id, 30]],
+      [['card', payment.id, 70]],
+    ]);
+  });
+
+  it('should leave a payment unapplied when there is nothing for it to cover', async () => {
+    const payment = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      amount: -100,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(0);
+
+    const stored = await prisma.transaction.findUniqueOrThrow({ where: { id: payment.id } });
+    expect(stored.paymentAppliedAt).toBeNull();
+
+    await createReport('2026-03-03', 60);
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+  });
+
+  it('should apply a payment only once when it appears on both the card and checking', async () => {
+    await createReport('2026-03-01', 40);
+    await createReport('2026-03-02', 60);
+
+    const cardCredit = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      amount: -40,
+      isPayment: true,
+    });
+    const checkingOutflow = await createTestTransaction(prisma, userId, checkingAccountId, {
+      date: calendarDateToInstant('2026-03-03', TIMEZONE),
+      amount: 40,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+
+    const paidCount = await prisma.dailyReport.count({ where: { userId, markedPaidAt: { not: null } } });
+    expect(paidCount).toBe(1);
+
+    const payments = await prisma.dailyReportPayment.findMany();
+    expect(payments).toEqual([expect.objectContaining({ transactionId: cardCredit.id })]);
+
+    const confirmed = await prisma.transaction.findUniqueOrThrow({ where: { id: checkingOutflow.id } });
+    expect(confirmed.paymentAppliedAt).not.toBeNull();
+  });
+
+  it('should not pay down days with a checking payment to a card that is not tracked', async () => {
+    await createReport('2026-03-01', 40);
+
+    const recent = await createTestTransaction(prisma, userId, checkingAccountId, {
+      date: new Date(),
+      amount: 40,
+      isPayment: true,
+    });
+    const old = await createTestTransaction(prisma, userId, checkingAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: 40,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(0);
+
+    expect(await prisma.dailyReport.count({ where: { userId, markedPaidAt: { not: null } } })).toBe(0);
+    expect(await prisma.dailyReportPayment.count()).toBe(0);
+
+    // The card credit may still post for a recent one; an old one is settled as not ours
+    const stored = await prisma.transaction.findMany({ where: { id: { in: [recent.id, old.id] } } });
+    expect(stored.find(t => t.id === recent.id)!.paymentAppliedAt).toBeNull();
+    expect(stored.find(t => t.id === old.id)!.paymentAppliedAt).not.toBeNull();
+  });
+
+  it('should reopen the days a payment paid when Plaid removes it', async () => {
+    const first = await createReport('2026-03-01', 40);
+    const second = await createReport('2026-03-02', 30);
+
+    const cardCredit = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-04', TIMEZONE),
+      amount: -50,
+      isPayment: true,
+    });
+    const checkingOutflow = await createTestTransaction(prisma, userId, checkingAccountId, {
+      date: calendarDateToInstant('2026-03-03', TIMEZONE),
+      amount: 50,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+    await expect(getUnpaidBalance(userId, '2026-03-05', TIMEZONE)).resolves.toBeCloseTo(20, 2);
+
+    await prisma.$transaction(tx => removePlaidTransactions(tx, userId, [cardCredit.plaidTransactionId]));
+
+    const reports = await prisma.dailyReport.findMany({
+      where: { id: { in: [first.id, second.id] } },
+      include: { payments: true },
+      orderBy: { date: 'asc' },
+    });
+    expect(reports.map(r => [r.markedPaidAt, r.paidAmount, r.payments.length])).toEqual([
+      [null, null, 0],
+      [null, null, 0],
+    ]);
+    await expect(getUnpaidBalance(userId, '2026-03-05', TIMEZONE)).resolves.toBeCloseTo(70, 2);
+
+    // The checking side is matched again, and on its own pays nothing down
+    const outflow = await prisma.transaction.findUniqueOrThrow({ where: { id: checkingOutflow.id } });
+    expect(outflow.paymentAppliedAt).toBeNull();
+  });
+
+  it('should wait for pending payments to post and for backfills to finish', async () => {
+    await createReport('2026-03-01', 40);
+
+    const payment = await createTestTransaction(prisma, userId, creditAccountId, {
+      date: calendarDateToInstant('2026-03-02', TIMEZONE),
+      amount: -40,
+      pending: true,
+      isPayment: true,
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(0);
+
+    await prisma.transaction.update({ where: { id: payment.id }, data: { pending: false } });
+    await prisma.plaidItem.create({
+      data: { userId, itemId: 'payments-item', accessTokenEncrypted: 'unused', backfillStatus: 'computing_reports' },
+    });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(0);
+
+    await prisma.plaidItem.updateMany({ where: { userId }, data: { backfillStatus: 'complete' } });
+
+    await expect(applyCardPayments(userId)).resolves.toBe(1);
+  });
+});
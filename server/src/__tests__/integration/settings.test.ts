@@ -8,6 +8,11 @@ import settingsRoutes from '../../routes/settings';
 import { authenticateToken } from '../../auth';
 import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
 import { createTestUser } from '../fixtures/userFixtures';
+import { createTrackedAccounts } from '../fixtures/plaidFixtures';
+import { createTestTransaction } from '../fixtures/transactionFixtures';
+import { computeDailyReportsForUser } from '../../jobs/computeDailyReports';
+import { FixtureRateProvider, setExchangeRateProvider } from '../../utils/currency';
+import { localDateOf, reportDateKey } from '../../utils/localDate';
 import { PrismaClient } from '@prisma/client';
 
 const app = express();
@@ -113,6 +118,119 @@ describe('Settings Endpoints', () => {
       expect(response.body).toHaveProperty('goal', 'spend');
     });
 
+    it('should update and turn off payment reminders', async () => {
+      const response = await request(app)
+        .patch('/settings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          paymentReminderDays: 5,
+        });
+
+      expect(response.status).toBe(200);
+      expect((await prisma.user.findUnique({ where: { id: userId } }))?.paymentReminderDays).toBe(5);
+
+      await request(app)
+        .patch('/settings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          paymentReminderDays: null,
+        });
+
+      expect((await prisma.user.findUnique({ where: { id: userId } }))?.paymentReminderDays).toBeNull();
+    });
+
+    it('should update whether refunds reduce the amount owed', async () => {
+      const response = await request(app)
+        .patch('/settings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          refundsReduceOwed: false,
+        });
+
+      expect(response.status).toBe(200);
+      expect((await prisma.user.findUnique({ where: { id: userId } }))?.refundsReduceOwed).toBe(false);
+    });
+
+    describe('settings that change the amount owed', () => {
+      const creditAccountId = 'settings-credit-account';
+      let today: string;
+
+      beforeEach(async () => {
+        today = localDateOf(new Date(), 'America/New_York');
+        await createTrackedAccounts(prisma, userId, [{ accountId: creditAccountId }]);
+        await createTestTransaction(prisma, userId, creditAccountId, { amount: 30, date: new Date() });
+        await computeDailyReportsForUser(userId, today);
+      });
+
+      afterEach(() => {
+        setExchangeRateProvider(null);
+      });
+
+      async function todayReport() {
+        return prisma.dailyReport.findUniqueOrThrow({
+          where: { userId_date: { userId, date: reportDateKey(today) } },
+        });
+      }
+
+      it('should move unpaid days to the new home currency', async () => {
+        setExchangeRateProvider(new FixtureRateProvider({ USD: 1, EUR: 0.5 }));
+
+        const response = await request(app)
+          .patch('/settings')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ homeCurrency: 'EUR' });
+
+        expect(response.status).toBe(200);
+
+        const report = await todayReport();
+        expect(report.currency).toBe('EUR');
+        expect(Number(report.amountOwed)).toBeCloseTo(15, 2);
+      });
+
+      it('should recompute the amount owed on unpaid days when refunds stop reducing it', async () => {
+        await createTestTransaction(prisma, userId, creditAccountId, { amount: -10, date: new Date() });
+        await computeDailyReportsForUser(userId, today);
+        expect(Number((await todayReport()).amountOwed)).toBeCloseTo(20, 2);
+
+        const response = await request(app)
+          .patch('/settings')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ refundsReduceOwed: false });
+
+        expect(response.status).toBe(200);
+        expect(Number((await todayReport()).amountOwed)).toBeCloseTo(30, 2);
+      });
+
+      it('should leave paid days at the amount they were paid at', async () => {
+        setExchangeRateProvider(new FixtureRateProvider({ USD: 1, EUR: 0.5 }));
+        await prisma.dailyReport.update({
+          where: { userId_date: { userId, date: reportDateKey(today) } },
+          data: { markedPaidAt: new Date(), paidAmount: 30 },
+        });
+
+        await request(app)
+          .patch('/settings')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ homeCurrency: 'EUR' });
+
+        const report = await todayReport();
+        expect(report.currency).toBe('USD');
+        expect(Number(report.amountOwed)).toBeCloseTo(30, 2);
+      });
+    });
+
+    it('should reject payment reminder days out of range', async () => {
+      const response = await request(app)
+        .patch('/settings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          paymentReminderDays: 45,
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error');
+    });
+
     it('should reject invalid timezone', async () => {
       const response = await request(app)
         .patch('/settings')
@@ -0,0 +1,226 @@
+/**
+ * Integration tests for pulling transactions from Plaid's /transactions/sync
+ */
+
+import { PlaidItem, PrismaClient } from '@prisma/client';
+import { Transaction as PlaidTransaction } from 'plaid';
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { createTestUser } from '../fixtures/userFixtures';
+import { createTestPlaidItem } from '../fixtures/plaidFixtures';
+import { syncItemTransactions } from '../../jobs/syncTransactions';
+
+const mockTransactionsSync = jest.fn();
+
+jest.mock('plaid', () => ({
+  ...jest.requireActual('plaid'),
+  PlaidApi: jest.fn().mockImplementation(() => ({
+    transactionsSync: (...args: unknown[]) => mockTransactionsSync(...args),
+  })),
+}));
+
+const TIMEZONE = 'America/New_York';
+const ACCOUNT_ID = 'sync-credit-account';
+
+function plaidTransaction(overrides: Partial<PlaidTransaction>): PlaidTransaction {
+  return {
+    transaction_id: `plaid-tx-${Math.random()}`,
+    account_id: ACCOUNT_ID,
+    date: '2026-03-02',
+    name: 'Coffee Shop',
+    amount: 4.5,
+    pending: false,
+    pending_transaction_id: null,
+    iso_currency_code: 'USD',
+    unofficial_currency_code: null,
+    ...overrides,
+  } as PlaidTransaction;
+}
+
+function syncPage(page: {
+  added?: PlaidTransaction[];
+  modified?: PlaidTransaction[];
+  removed?: { transaction_id: string }[];
+  nextCursor: string;
+  hasMore?: boolean;
+}) {
+  return {
+    data: {
+      added: page.added ?? [],
+      modified: page.modified ?? [],
+      removed: page.removed ?? [],
+      next_cursor: page.nextCursor,
+      has_more: page.hasMore ?? false,
+    },
+  };
+}
+
+describe('Transaction Sync', () => {
+  let prisma: PrismaClient;
+  let userId: string;
+  let plaidItem: PlaidItem;
+
+  async function loadItem() {
+    return prisma.plaidItem.findUniqueOrThrow({ where: { id: plaidItem.id } });
+  }
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+    mockTransactionsSync.mockReset();
+
+    const user = await createTestUser(prisma, { timezone: TIMEZONE });
+    userId = user.id;
+
+    const item = await createTestPlaidItem(prisma, userId, { itemId: 'sync-item' });
+    plaidItem = await prisma.plaidItem.update({
+      where: { id: item.id },
+      data: { syncCursor: 'cursor-0' },
+    });
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  describe('pagination', () => {
+    it('should apply every page and save the final cursor', async () => {
+      mockTransactionsSync
+        .mockResolvedValueOnce(syncPage({
+          added: [plaidTransaction({ transaction_id: 'tx-1' })],
+          nextCursor: 'cursor-1',
+          hasMore: true,
+        }))
+        .mockResolvedValueOnce(syncPage({
+          added: [plaidTransaction({ transaction_id: 'tx-2', date: '2026-03-03' })],
+          nextCursor: 'cursor-2',
+        }));
+
+      const result = await syncItemTransactions(plaidItem, 'access-token');
+
+      expect(mockTransactionsSync.mock.calls.map(([request]) => request.cursor)).toEqual(['cursor-0', 'cursor-1']);
+      expect(result.added).toBe(2);
+      expect(result.affectedDays.sort()).toEqual(['2026-03-02', '2026-03-03']);
+      expect(await prisma.transaction.count({ where: { userId } })).toBe(2);
+      expect((await loadItem()).syncCursor).toBe('cursor-2');
+    });
+
+    it('should write nothing and keep the cursor when a later page fails', async () => {
+      mockTransactionsSync
+        .mockResolvedValueOnce(syncPage({
+          added: [plaidTransaction({ transaction_id: 'tx-1' })],
+          nextCursor: 'cursor-1',
+          hasMore: true,
+        }))
+        .mockRejectedValueOnce({ response: { data: { error_code: 'INTERNAL_SERVER_ERROR' } } });
+
+      await expect(syncItemTransactions(plaidItem, 'access-token')).rejects.toBeDefined();
+
+      expect(await prisma.transaction.count({ where: { userId } })).toBe(0);
+      expect((await loadItem()).syncCursor).toBe('cursor-0');
+    });
+
+    it('should restart from the original cursor when data changes mid-way', async () => {
+      mockTransactionsSync
+        .mockResolvedValueOnce(syncPage({
+          added: [plaidTransaction({ transaction_id: 'stale-tx' })],
+          nextCursor: 'cursor-1',
+          hasMore: true,
+        }))
+        .mockRejectedValueOnce({ response: { data: { error_code: 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' } } })
+        .mockResolvedValueOnce(syncPage({
+          added: [plaidTransaction({ transaction_id: 'fresh-tx' })],
+          nextCursor: 'cursor-3',
+        }));
+
+      const result = await syncItemTransactions(plaidItem, 'access-token');
+
+      expect(mockTransactionsSync.mock.calls.map(([request]) => request.cursor)).toEqual(['cursor-0', 'cursor-1', 'cursor-0']);
+      expect(result.added).toBe(1);
+
+      const rows = await prisma.transaction.findMany({ where: { userId } });
+      expect(rows.map(t => t.plaidTransactionId)).toEqual(['fresh-tx']);
+      expect((await loadItem()).syncCursor).toBe('cursor-3');
+    });
+
+    it('should give up after repeated mutations without moving the cursor', async () => {
+      mockTransactionsSync.mockRejectedValue({
+        response: { data: { error_code: 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' } },
+      });
+
+      await expect(syncItemTransactions(plaidItem, 'access-token')).rejects.toBeDefined();
+
+      expect(mockTransactionsSync).toHaveBeenCalledTimes(4);
+      expect((await loadItem()).syncCursor).toBe('cursor-0');
+    });
+  });
+
+  describe('pending to posted', () => {
+    it('should retire a pending row once it posts under a new transaction_id', async () => {
+      mockTransactionsSync.mockResolvedValueOnce(syncPage({
+        added: [plaidTransaction({ transaction_id: 'pending-1', pending: true, amount: 20, date: '2026-03-01' })],
+        nextCursor: 'cursor-1',
+      }));
+      await syncItemTransactions(plaidItem, 'access-token');
+
+      mockTransactionsSync.mockResolvedValueOnce(syncPage({
+        added: [plaidTransaction({ transaction_id: 'posted-1', pending_transaction_id: 'pending-1', amount: 22, date: '2026-03-02' })],
+        removed: [{ transaction_id: 'pending-1' }],
+        nextCursor: 'cursor-2',
+      }));
+      const result = await syncItemTransactions(await loadItem(), 'access-token');
+
+      expect(result.affectedDays.sort()).toEqual(['2026-03-01', '2026-03-02']);
+
+      const rows = await prisma.transaction.findMany({ where: { userId, retiredAt: null } });
+      expect(rows.map(t => [t.plaidTransactionId, Number(t.amount)])).toEqual([['posted-1', 22]]);
+    });
+
+    it('should retire a pending row that arrives after the posted row referencing it', async () => {
+      mockTransactionsSync.mockResolvedValueOnce(syncPage({
+        added: [plaidTransaction({ transaction_id: 'posted-1', pending_transaction_id: 'pending-1', amount: 22 })],
+        nextCursor: 'cursor-1',
+      }));
+      await syncItemTransactions(plaidItem, 'access-token');
+
+      mockTransactionsSync.mockResolvedValueOnce(syncPage({
+        added: [plaidTransaction({ transaction_id: 'pending-1', pending: true, amount: 20 })],
+        nextCursor: 'cursor-2',
+      }));
+      const result = await syncItemTransactions(await loadItem(), 'access-token');
+
+      expect(result.retired).toBe(1);
+
+      const pending = await prisma.transaction.findUniqueOrThrow({ where: { plaidTransactionId: 'pending-1' } });
+      expect(pending.retiredAt).not.toBeNull();
+
+      const posted = await prisma.transaction.findUniqueOrThrow({ where: { plaidTransactionId: 'posted-1' } });
+      expect(posted.retiredAt).toBeNull();
+    });
+
+    it('should not retire rows on behalf of another user', async () => {
+      const other = await createTestUser(prisma, { email: 'other-sync-user@example.com' });
+      await prisma.transaction.create({
+        data: {
+          userId: other.id,
+          accountId: 'other-account',
+          plaidTransactionId: 'other-posted',
+          pendingTransactionId: 'pending-1',
+          date: new Date(),
+          name: 'Other purchase',
+          amount: 5,
+        },
+      });
+
+      mockTransactionsSync.mockResolvedValueOnce(syncPage({
+        added: [plaidTransaction({ transaction_id: 'pending-1', pending: true })],
+        nextCursor: 'cursor-1',
+      }));
+      const result = await syncItemTransactions(plaidItem, 'access-token');
+
+      expect(result.retired).toBe(0);
+    });
+  });
+});
@@ -8,9 +8,11 @@ import todayRoutes from '../../routes/today';
 import { authenticateToken } from '../../auth';
 import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
 import { createTestUser } from '../fixtures/userFixtures';
-import { createAccountSelection } from '../fixtures/plaidFixtures';
+import { createAccountSelection, createTrackedAccounts } from '../fixtures/plaidFixtures';
 import { createTestTransaction, createTestTransactions } from '../fixtures/transactionFixtures';
 import { PrismaClient } from '@prisma/client';
+import { computeDailyReportsForUser } from '../../jobs/computeDailyReports';
+import { addLocalDays, localDateOf, reportDateKey } from '../../utils/localDate';
 
 const app = express();
 app.use(express.json());
@@ -93,6 +95,31 @@ describe('Today Endpoints', () => {
       expect(response.body.transactionCount).toBe(2);
     });
 
+    it('should not count a pending charge that has posted', async () => {
+      const today = new Date();
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        plaidTransactionId: 'pending-coffee',
+        amount: 5.00,
+        pending: true,
+        date: today,
+        retiredAt: new Date(),
+      });
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        plaidTransactionId: 'posted-coffee',
+        pendingTransactionId: 'pending-coffee',
+        amount: 6.25,
+        date: today,
+      });
+
+      const response = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalAmount).toBeCloseTo(6.25, 2);
+      expect(response.body.transactionCount).toBe(1);
+    });
+
     it('should reject request without account selection', async () => {
       // Remove account selection
       await prisma.accountSelection.deleteMany({ where: { userId } });
@@ -143,6 +170,40 @@ describe('Today Endpoints', () => {
       expect(response.body.transactions[0]).toHaveProperty('date');
     });
 
+    it('should include merchant, category and location metadata', async () => {
+      await prisma.transaction.create({
+        data: {
+          userId,
+          accountId: creditAccountId,
+          plaidTransactionId: 'plaid-tx-metadata',
+          date: new Date(),
+          name: 'STARBUCKS 1234',
+          amount: 4.95,
+          merchantName: 'Starbucks',
+          categoryPrimary: 'FOOD_AND_DRINK',
+          categoryDetailed: 'FOOD_AND_DRINK_COFFEE',
+          paymentChannel: 'in store',
+          isoCurrencyCode: 'USD',
+          locationCity: 'Seattle',
+          locationRegion: 'WA',
+        },
+      });
+
+      const response = await request(app)
+        .get('/today/transactions')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.transactions[0]).toMatchObject({
+        merchantName: 'Starbucks',
+        category: 'FOOD_AND_DRINK',
+        categoryDetailed: 'FOOD_AND_DRINK_COFFEE',
+        paymentChannel: 'in store',
+        isoCurrencyCode: 'USD',
+        location: { city: 'Seattle', region: 'WA' },
+      });
+    });
+
     it('should not return yesterday transactions', async () => {
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1);
@@ -258,6 +319,132 @@ describe('Today Endpoints', () => {
       expect(dailyReport?.transactionCount).toBe(2);
     });
 
+    it('should record the remaining amount only once for a double tap', async () => {
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        amount: 10.50,
+        date: new Date(),
+      });
+
+      const responses = await Promise.all([1, 2].map(() =>
+        request(app)
+          .post('/today/mark-paid')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+      ));
+
+      expect(responses.map(response => response.status)).toEqual([200, 200]);
+
+      const payments = await prisma.dailyReportPayment.findMany({
+        where: { dailyReport: { userId } },
+      });
+      expect(payments.map(payment => Number(payment.amount))).toEqual([10.5]);
+    });
+
+    it('should report a change to a day after it was marked as paid', async () => {
+      const today = new Date();
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        amount: 10.50,
+        date: today,
+      });
+
+      await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({});
+
+      // A tip added after paying, picked up by the next recompute
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        amount: 3.20,
+        date: today,
+      });
+      await computeDailyReportsForUser(userId, localDateOf(today, 'America/New_York'));
+
+      const response = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.body.paidDayAdjustments).toHaveLength(1);
+      expect(response.body.paidDayAdjustments[0].paidAmount).toBeCloseTo(10.50, 2);
+      expect(response.body.paidDayAdjustments[0].delta).toBeCloseTo(3.20, 2);
+
+      // Paying again settles the difference
+      await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({});
+
+      const settled = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(settled.body.paidDayAdjustments).toEqual([]);
+    });
+
+    it('should record partial payments until the day is paid', async () => {
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        amount: 40.00,
+        date: new Date(),
+      });
+
+      const partial = await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 15 });
+
+      expect(partial.status).toBe(200);
+      expect(partial.body).toMatchObject({ markedPaidAt: null, paid: 15, remaining: 25, status: 'partial' });
+
+      const summary = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(summary.body).toMatchObject({ markedPaid: false, paid: 15, remaining: 25, status: 'partial' });
+
+      // Without an amount, whatever is left is paid
+      const rest = await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({});
+
+      expect(rest.body).toMatchObject({ paid: 40, remaining: 0, status: 'paid' });
+      expect(rest.body.markedPaidAt).not.toBeNull();
+
+      const payments = await prisma.dailyReportPayment.findMany({ orderBy: { createdAt: 'asc' } });
+      expect(payments.map(p => [p.source, Number(p.amount)])).toEqual([['manual', 15], ['manual', 25]]);
+    });
+
+    it('should reject an amount larger than what is left on the day', async () => {
+      await createTestTransaction(prisma, userId, creditAccountId, {
+        amount: 40.00,
+        date: new Date(),
+      });
+
+      await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 15 });
+
+      const response = await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 30 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatchObject({ code: 'VALIDATION_ERROR', details: { amount: 30, remaining: 25 } });
+
+      const payments = await prisma.dailyReportPayment.findMany();
+      expect(payments.map(p => Number(p.amount))).toEqual([15]);
+    });
+
+    it('should reject a non-positive amount', async () => {
+      const response = await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 0 });
+
+      expect(response.status).toBe(400);
+    });
+
     it('should reject request without account selection', async () => {
       await prisma.accountSelection.deleteMany({ where: { userId } });
 
@@ -279,5 +466,179 @@ describe('Today Endpoints', () => {
       expect(response.body).toHaveProperty('error');
     });
   });
-});
 
+  describe('unpaid balance', () => {
+    it('should roll forward what is left on earlier days since sign-up', async () => {
+      const today = localDateOf(new Date(), 'America/New_York');
+      await prisma.user.update({
+        where: { id: userId },
+        data: { createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) },
+      });
+
+      const partial = await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -2)), totalAmount: 20, purchasesAmount: 20, amountOwed: 20 },
+      });
+      await prisma.dailyReportPayment.create({
+        data: { dailyReportId: partial.id, source: 'manual', amount: 5 },
+      });
+      await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -1)), totalAmount: 12, purchasesAmount: 12, amountOwed: 12 },
+      });
+      await prisma.dailyReport.create({
+        data: {
+          userId,
+          date: reportDateKey(addLocalDays(today, -3)),
+          totalAmount: 30,
+          purchasesAmount: 30,
+          amountOwed: 30,
+          markedPaidAt: new Date(),
+        },
+      });
+      // Backfilled history from before sign-up isn't owed
+      await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -30)), totalAmount: 99, purchasesAmount: 99, amountOwed: 99 },
+      });
+
+      const response = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.unpaidBalance).toBeCloseTo(27, 2);
+    });
+
+    it('should list the days behind the balance oldest first', async () => {
+      const today = localDateOf(new Date(), 'America/New_York');
+      await prisma.user.update({
+        where: { id: userId },
+        data: { createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) },
+      });
+
+      const partial = await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -2)), totalAmount: 20, purchasesAmount: 20, amountOwed: 20 },
+      });
+      await prisma.dailyReportPayment.create({
+        data: { dailyReportId: partial.id, source: 'manual', amount: 5 },
+      });
+      await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -1)), totalAmount: 12, purchasesAmount: 12, amountOwed: 12 },
+      });
+      // Today is still open
+      await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(today), totalAmount: 8, purchasesAmount: 8, amountOwed: 8 },
+      });
+
+      const response = await request(app)
+        .get('/today/unpaid')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalRemaining).toBeCloseTo(27, 2);
+      expect(response.body.days).toEqual([
+        { date: addLocalDays(today, -2), amountOwed: 20, paid: 5, remaining: 15, status: 'partial' },
+        { date: addLocalDays(today, -1), amountOwed: 12, paid: 0, remaining: 12, status: 'unpaid' },
+      ]);
+    });
+
+    it('should pay off every listed day in one call', async () => {
+      const today = localDateOf(new Date(), 'America/New_York');
+      await prisma.user.update({
+        where: { id: userId },
+        data: { createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) },
+      });
+
+      const partial = await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -2)), totalAmount: 20, purchasesAmount: 20, amountOwed: 20 },
+      });
+      await prisma.dailyReportPayment.create({
+        data: { dailyReportId: partial.id, source: 'manual', amount: 5 },
+      });
+      await prisma.dailyReport.create({
+        data: { userId, date: reportDateKey(addLocalDays(today, -1)), totalAmount: 12, purchasesAmount: 12, amountOwed: 12 },
+      });
+
+      const response = await request(app)
+        .post('/today/mark-all-paid')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalPaid).toBeCloseTo(27, 2);
+      expect(response.body.dates).toEqual([addLocalDays(today, -2), addLocalDays(today, -1)]);
+
+      const reports = await prisma.dailyReport.findMany({
+        where: { userId },
+        include: { payments: true },
+        orderBy: { date: 'asc' },
+      });
+      expect(reports.every(report => report.markedPaidAt !== null)).toBe(true);
+      expect(Number(reports[0].paidAmount)).toBe(20);
+      expect(reports[0].payments.map(payment => Number(payment.amount)).sort((a, b) => a - b)).toEqual([5, 15]);
+
+      const summary = await request(app)
+        .get('/today/unpaid')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(summary.body.totalRemaining).toBe(0);
+      expect(summary.body.days).toEqual([]);
+    });
+  });
+
+  describe('multiple tracked cards', () => {
+    const secondCardId = 'test-second-credit-account-id';
+    const disabledCardId = 'test-disabled-credit-account-id';
+
+    beforeEach(async () => {
+      await createTrackedAccounts(prisma, userId, [
+        { accountId: creditAccountId },
+        { accountId: secondCardId },
+        { accountId: disabledCardId, enabled: false },
+      ]);
+
+      const today = new Date();
+      await createTestTransaction(prisma, userId, creditAccountId, { amount: 10.00, date: today });
+      await createTestTransaction(prisma, userId, secondCardId, { amount: 20.00, date: today });
+      await createTestTransaction(prisma, userId, secondCardId, { amount: 5.50, date: today });
+      await createTestTransaction(prisma, userId, disabledCardId, { amount: 99.00, date: today });
+    });
+
+    it('should aggregate enabled cards and break totals down per card', async () => {
+      const response = await request(app)
+        .get('/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalAmount).toBeCloseTo(35.50, 2);
+      expect(response.body.transactionCount).toBe(3);
+      expect(response.body.accounts).toHaveLength(2);
+
+      const second = response.body.accounts.find((a: any) => a.accountId === secondCardId);
+      expect(second.totalAmount).toBeCloseTo(25.50, 2);
+      expect(second.transactionCount).toBe(2);
+    });
+
+    it('should return transactions from every enabled card', async () => {
+      const response = await request(app)
+        .get('/today/transactions')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.transactions).toHaveLength(3);
+      expect(response.body.transactions.map((t: any) => t.accountId)).not.toContain(disabledCardId);
+    });
+
+    it('should store the per-card breakdown when marking as paid', async () => {
+      await request(app)
+        .post('/today/mark-paid')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({});
+
+      const dailyReport = await prisma.dailyReport.findFirst({
+        where: { userId },
+        include: { accounts: true },
+      });
+
+      expect(Number(dailyReport?.totalAmount)).toBeCloseTo(35.50, 2);
+      expect(dailyReport?.accounts).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Integration tests for the Plaid webhook inbox
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+import { recordWebhookEvent, processWebhookEvent, replayWebhookEvent } from '../../jobs/processWebhooks';
+import { handlePlaidWebhook } from '../../utils/plaidWebhook';
+
+jest.mock('../../utils/plaidWebhook', () => ({
+  handlePlaidWebhook: jest.fn(),
+}));
+
+const mockHandlePlaidWebhook = handlePlaidWebhook as jest.MockedFunction<typeof handlePlaidWebhook>;
+
+describe('Webhook Inbox', () => {
+  let prisma: PrismaClient;
+  const webhook = { webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' };
+  const body = JSON.stringify(webhook);
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+    mockHandlePlaidWebhook.mockReset();
+    mockHandlePlaidWebhook.mockResolvedValue(undefined);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  describe('recordWebhookEvent', () => {
+    it('should store a new webhook as pending', async () => {
+      const { event, duplicate } = await recordWebhookEvent(body, webhook);
+
+      expect(duplicate).toBe(false);
+      expect(event.status).toBe('pending');
+      expect(event.itemId).toBe('item-1');
+      expect(event.webhookCode).toBe('SYNC_UPDATES_AVAILABLE');
+      expect(event.payload).toBe(body);
+    });
+
+    it('should treat the same body as a duplicate while the first is still queued', async () => {
+      const first = await recordWebhookEvent(body, webhook);
+      const second = await recordWebhookEvent(body, webhook);
+
+      expect(second.duplicate).toBe(true);
+      expect(second.event.id).toBe(first.event.id);
+      expect(await prisma.webhookEvent.count()).toBe(1);
+    });
+
+    it('should treat the same body as a duplicate within the redelivery window', async () => {
+      const first = await recordWebhookEvent(body, webhook);
+      await processWebhookEvent(first.event);
+
+      const second = await recordWebhookEvent(body, webhook);
+
+      expect(second.duplicate).toBe(true);
+    });
+
+    it('should accept the same body again once the first is handled and the window has passed', async () => {
+      const first = await recordWebhookEvent(body, webhook);
+      await processWebhookEvent(first.event);
+      await prisma.webhookEvent.update({
+        where: { id: first.event.id },
+        data: { receivedAt: new Date(Date.now() - 60 * 60 * 1000) },
+      });
+
+      const second = await recordWebhookEvent(body, webhook);
+
+      expect(second.duplicate).toBe(false);
+      expect(second.event.id).not.toBe(first.event.id);
+      expect(await prisma.webhookEvent.count()).toBe(2);
+    });
+  });
+
+  describe('processWebhookEvent', () => {
+    it('should handle the event and mark it processed', async () => {
+      const { event } = await recordWebhookEvent(body, webhook);
+
+      const result = await processWebhookEvent(event);
+
+      expect(mockHandlePlaidWebhook).toHaveBeenCalledWith(webhook);
+      expect(result?.status).toBe('processed');
+      expect(result?.attempts).toBe(1);
+      expect(result?.processedAt).not.toBeNull();
+    });
+
+    it('should not handle an event another run has already claimed', async () => {
+      const { event } = await recordWebhookEvent(body, webhook);
+
+      await processWebhookEvent(event);
+      const result = await processWebhookEvent(event);
+
+      expect(result).toBeNull();
+      expect(mockHandlePlaidWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should queue a failed event for retry with a delay', async () => {
+      mockHandlePlaidWebhook.mockRejectedValue(new Error('Plaid unavailable'));
+      const { event } = await recordWebhookEvent(body, webhook);
+
+      const result = await processWebhookEvent(event);
+
+      expect(result?.status).toBe('pending');
+      expect(result?.attempts).toBe(1);
+      expect(result?.lastError).toBe('Plaid unavailable');
+      expect(result!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockHandlePlaidWebhook.mockRejectedValue(new Error('Plaid unavailable'));
+      const { event } = await recordWebhookEvent(body, webhook);
+      const exhausting = await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: { attempts: 4 },
+      });
+
+      const result = await processWebhookEvent(exhausting);
+
+      expect(result?.status).toBe('failed');
+      expect(result?.attempts).toBe(5);
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('should handle a failed event again from scratch', async () => {
+      const { event } = await recordWebhookEvent(body, webhook);
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: { status: 'failed', attempts: 5, lastError: 'Plaid unavailable' },
+      });
+
+      const result = await replayWebhookEvent(event.id);
+
+      expect(mockHandlePlaidWebhook).toHaveBeenCalledTimes(1);
+      expect(result?.status).toBe('processed');
+      expect(result?.attempts).toBe(1);
+      expect(result?.lastError).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Integration tests for the Plaid webhook endpoint
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import plaidRoutes from '../../routes/plaid';
+import { env } from '../../config/env';
+import { handlePlaidWebhook } from '../../utils/plaidWebhook';
+import { createTestDb, cleanDatabase, closeDatabase } from '../helpers/testDb';
+
+jest.mock('../../utils/plaidWebhook', () => ({
+  ...jest.requireActual('../../utils/plaidWebhook'),
+  verifyWebhookSignature: jest.fn(async () => true),
+  handlePlaidWebhook: jest.fn(async () => undefined),
+}));
+
+const mockHandlePlaidWebhook = handlePlaidWebhook as jest.MockedFunction<typeof handlePlaidWebhook>;
+
+const app = express();
+app.use('/plaid', plaidRoutes);
+
+describe('Plaid Webhook Endpoint', () => {
+  let prisma: PrismaClient;
+  const originalRole = env.processRole;
+
+  function sendWebhook(itemId: string) {
+    return request(app)
+      .post('/plaid/webhook')
+      .set('Content-Type', 'application/json')
+      .set('Plaid-Verification', 'signed')
+      .send(JSON.stringify({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: itemId }));
+  }
+
+  // Let the handler's background processing run
+  const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  beforeAll(async () => {
+    prisma = createTestDb();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(prisma);
+    mockHandlePlaidWebhook.mockClear();
+  });
+
+  afterEach(() => {
+    env.processRole = originalRole;
+  });
+
+  afterAll(async () => {
+    await closeDatabase(prisma);
+  });
+
+  it('should only queue the event in an API-only process', async () => {
+    env.processRole = 'api';
+
+    const response = await sendWebhook('item-api');
+    await settle();
+
+    expect(response.status).toBe(200);
+    expect(mockHandlePlaidWebhook).not.toHaveBeenCalled();
+
+    const events = await prisma.webhookEvent.findMany();
+    expect(events.map(event => [event.itemId, event.status])).toEqual([['item-api', 'pending']]);
+  });
+
+  it('should handle the event right away when the process also runs the worker', async () => {
+    env.processRole = 'all';
+
+    const response = await sendWebhook('item-all');
+    await settle();
+
+    expect(response.status).toBe(200);
+    expect(mockHandlePlaidWebhook).toHaveBeenCalledTimes(1);
+  });
+});
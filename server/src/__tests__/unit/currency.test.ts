@@ -0,0 +1,160 @@
+/**
+ * Unit tests for currency conversion and per-currency totals
+ */
+
+import {
+  FixtureRateProvider,
+  HttpRateProvider,
+  setExchangeRateProvider,
+  getExchangeRate,
+  transactionCurrency,
+  formatAmount,
+} from '../../utils/currency';
+import { summarizeSpending, amountOwed } from '../../utils/trackedAccounts';
+
+const fixtureRates = new FixtureRateProvider({ USD: 1, EUR: 0.5, GBP: 0.25 });
+const day = new Date('2026-01-15T00:00:00Z');
+
+describe('Currency Utilities', () => {
+  afterEach(() => {
+    setExchangeRateProvider(null);
+  });
+
+  describe('getExchangeRate', () => {
+    it('should return 1 for the same currency without a provider', async () => {
+      await expect(getExchangeRate('EUR', 'EUR', day)).resolves.toBe(1);
+    });
+
+    it('should return null for different currencies without a provider', async () => {
+      await expect(getExchangeRate('EUR', 'USD', day)).resolves.toBeNull();
+    });
+
+    it('should convert through the fixture provider', async () => {
+      setExchangeRateProvider(fixtureRates);
+
+      await expect(getExchangeRate('EUR', 'USD', day)).resolves.toBe(2);
+      await expect(getExchangeRate('GBP', 'EUR', day)).resolves.toBe(2);
+      await expect(getExchangeRate('JPY', 'USD', day)).resolves.toBeNull();
+    });
+  });
+
+  describe('HttpRateProvider', () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock;
+
+    function respondWith(ratesByUrl: Record<string, Record<string, number>>) {
+      fetchMock = jest.fn(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ base: 'USD', rates: ratesByUrl[url] }),
+      }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+    }
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should request the rates for the given day', async () => {
+      respondWith({
+        'https://rates.test/2026-01-15': { EUR: 0.5 },
+        'https://rates.test/2026-01-16': { EUR: 0.25 },
+      });
+      const provider = new HttpRateProvider('https://rates.test/{date}');
+
+      await expect(provider.getRate('EUR', 'USD', day)).resolves.toBe(2);
+      await expect(provider.getRate('EUR', 'USD', new Date('2026-01-16T12:00:00Z'))).resolves.toBe(4);
+      await expect(provider.getRate('EUR', 'USD', day)).resolves.toBe(2);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the rates first fetched for a past day when the source only has current rates', async () => {
+      respondWith({ 'https://rates.test/latest': { EUR: 0.5 } });
+      const provider = new HttpRateProvider('https://rates.test/latest', 0);
+
+      await expect(provider.getRate('EUR', 'USD', day)).resolves.toBe(2);
+
+      respondWith({ 'https://rates.test/latest': { EUR: 0.25 } });
+
+      await expect(provider.getRate('EUR', 'USD', day)).resolves.toBe(2);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transactionCurrency', () => {
+    it('should prefer the ISO code, then the unofficial code, then USD', () => {
+      expect(transactionCurrency({ isoCurrencyCode: 'EUR', unofficialCurrencyCode: null })).toBe('EUR');
+      expect(transactionCurrency({ isoCurrencyCode: null, unofficialCurrencyCode: 'BTC' })).toBe('BTC');
+      expect(transactionCurrency({})).toBe('USD');
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should prefix the currency code', () => {
+      expect(formatAmount('EUR', 12.5)).toBe('EUR 12.50');
+    });
+  });
+
+  describe('summarizeSpending', () => {
+    const transactions = [
+      { accountId: 'usd-card', amount: 10, isoCurrencyCode: 'USD' },
+      { accountId: 'eur-card', amount: 20, isoCurrencyCode: 'EUR' },
+      { accountId: 'eur-card', amount: 5, isoCurrencyCode: 'EUR' },
+    ];
+
+    it('should convert every currency into the home currency when rates exist', async () => {
+      setExchangeRateProvider(fixtureRates);
+
+      const summary = await summarizeSpending(transactions, ['usd-card', 'eur-card'], 'USD', day);
+
+      expect(summary.currency).toBe('USD');
+      expect(summary.totalAmount).toBeCloseTo(60, 2);
+      expect(summary.transactionCount).toBe(3);
+      expect(summary.accounts.find(a => a.accountId === 'eur-card')?.totalAmount).toBeCloseTo(50, 2);
+      expect(summary.currencies).toEqual(expect.arrayContaining([
+        { currency: 'EUR', totalAmount: 25, transactionCount: 2, converted: true },
+        { currency: 'USD', totalAmount: 10, transactionCount: 1, converted: true },
+      ]));
+    });
+
+    it('should keep currencies without a rate out of the converted total', async () => {
+      const summary = await summarizeSpending(transactions, ['usd-card', 'eur-card'], 'USD', day);
+
+      expect(summary.totalAmount).toBeCloseTo(10, 2);
+      expect(summary.transactionCount).toBe(3);
+      expect(summary.currencies.find(c => c.currency === 'EUR')).toEqual({
+        currency: 'EUR',
+        totalAmount: 25,
+        transactionCount: 2,
+        converted: false,
+      });
+    });
+
+    it('should total purchases and refunds separately from the net amount', async () => {
+      setExchangeRateProvider(fixtureRates);
+
+      const summary = await summarizeSpending([
+        { accountId: 'usd-card', amount: 30, isoCurrencyCode: 'USD' },
+        { accountId: 'usd-card', amount: -50, isoCurrencyCode: 'USD' },
+        { accountId: 'eur-card', amount: 10, isoCurrencyCode: 'EUR' },
+      ], ['usd-card', 'eur-card'], 'USD', day);
+
+      expect(summary.purchasesAmount).toBeCloseTo(50, 2);
+      expect(summary.refundsAmount).toBeCloseTo(50, 2);
+      expect(summary.totalAmount).toBeCloseTo(0, 2);
+    });
+  });
+
+  describe('amountOwed', () => {
+    it('should let refunds reduce the amount owed only when the user opted in', () => {
+      const summary = { totalAmount: 20, purchasesAmount: 70 };
+
+      expect(amountOwed(summary, true)).toBe(20);
+      expect(amountOwed(summary, false)).toBe(70);
+    });
+
+    it('should never be negative', () => {
+      expect(amountOwed({ totalAmount: -40, purchasesAmount: 10 }, true)).toBe(0);
+    });
+  });
+});
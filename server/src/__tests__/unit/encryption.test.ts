@@ -2,7 +2,40 @@
  * Unit tests for encryption utilities
  */
 
-import { encryptPlaidToken, decryptPlaidToken } from '../../db';
+import crypto from 'crypto';
+import { encryptPlaidToken, decryptPlaidToken, needsReencryption } from '../../db';
+
+const TEST_KEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+const OTHER_KEY = 'fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210';
+
+// Ciphertext in the format used before key IDs were stored: iv:authTag:encrypted
+function legacyEncrypt(plaintext: string, keyHex: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(keyHex, 'hex'), iv);
+  const encrypted = cipher.update(plaintext, 'utf8', 'hex') + cipher.final('hex');
+  return iv.toString('hex') + ':' + cipher.getAuthTag().toString('hex') + ':' + encrypted;
+}
+
+// Load db.ts again with a different key configuration
+function loadDbWithEnv(overrides: Record<string, string | undefined>): typeof import('../../db') {
+  const saved = { ...process.env };
+  Object.assign(process.env, overrides);
+  for (const [name, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      delete process.env[name];
+    }
+  }
+
+  try {
+    let loaded!: typeof import('../../db');
+    jest.isolateModules(() => {
+      loaded = require('../../db');
+    });
+    return loaded;
+  } finally {
+    process.env = saved;
+  }
+}
 
 describe('Encryption Utilities', () => {
   describe('encryptPlaidToken', () => {
@@ -13,7 +46,7 @@ describe('Encryption Utilities', () => {
       expect(encrypted).toBeDefined();
       expect(encrypted).not.toBe(plaintext);
       expect(typeof encrypted).toBe('string');
-      expect(encrypted.split(':')).toHaveLength(3); // Format: iv:authTag:encrypted
+      expect(encrypted.split(':')).toHaveLength(4); // Format: keyId:iv:authTag:encrypted
     });
 
     it('should produce different ciphertext for the same plaintext', () => {
@@ -30,7 +63,7 @@ describe('Encryption Utilities', () => {
       const encrypted = encryptPlaidToken(plaintext);
       
       expect(encrypted).toBeDefined();
-      expect(encrypted.split(':')).toHaveLength(3);
+      expect(encrypted.split(':')).toHaveLength(4);
     });
 
     it('should handle long strings', () => {
@@ -38,7 +71,7 @@ describe('Encryption Utilities', () => {
       const encrypted = encryptPlaidToken(plaintext);
       
       expect(encrypted).toBeDefined();
-      expect(encrypted.split(':')).toHaveLength(3);
+      expect(encrypted.split(':')).toHaveLength(4);
     });
 
     it('should handle special characters', () => {
@@ -46,7 +79,7 @@ describe('Encryption Utilities', () => {
       const encrypted = encryptPlaidToken(plaintext);
       
       expect(encrypted).toBeDefined();
-      expect(encrypted.split(':')).toHaveLength(3);
+      expect(encrypted.split(':')).toHaveLength(4);
     });
   });
 
@@ -115,7 +148,7 @@ describe('Encryption Utilities', () => {
       const plaintext = 'test-access-token-12345';
       const encrypted = encryptPlaidToken(plaintext);
       const parts = encrypted.split(':');
-      parts[2] = 'tampered-data'; // Tamper with encrypted data
+      parts[3] = 'tampered-data'; // Tamper with encrypted data
       const tampered = parts.join(':');
       
       expect(() => {
@@ -124,6 +157,53 @@ describe('Encryption Utilities', () => {
     });
   });
 
+  describe('key IDs', () => {
+    it('should prefix ciphertext with the active key ID', () => {
+      expect(encryptPlaidToken('token').startsWith('v1:')).toBe(true);
+    });
+
+    it('should decrypt legacy ciphertext without a key ID', () => {
+      const legacy = legacyEncrypt('legacy-token', TEST_KEY);
+
+      expect(decryptPlaidToken(legacy)).toBe('legacy-token');
+      expect(needsReencryption(legacy)).toBe(true);
+    });
+
+    it('should throw for an unknown key ID', () => {
+      const parts = encryptPlaidToken('token').split(':');
+      parts[0] = 'retired';
+
+      expect(() => decryptPlaidToken(parts.join(':'))).toThrow('Unknown encryption key ID');
+    });
+
+    it('should not flag ciphertext from the active key for re-encryption', () => {
+      expect(needsReencryption(encryptPlaidToken('token'))).toBe(false);
+    });
+
+    it('should decrypt with older keys and encrypt with the active key', () => {
+      const rotated = loadDbWithEnv({
+        PLAID_TOKEN_ENCRYPTION_KEY: undefined,
+        PLAID_TOKEN_ENCRYPTION_KEYS: `v2:${OTHER_KEY},v1:${TEST_KEY}`,
+        PLAID_TOKEN_ENCRYPTION_ACTIVE_KEY_ID: 'v2',
+      });
+      const oldCiphertext = encryptPlaidToken('token');
+
+      expect(rotated.getActiveEncryptionKeyId()).toBe('v2');
+      expect(rotated.decryptPlaidToken(oldCiphertext)).toBe('token');
+      expect(rotated.needsReencryption(oldCiphertext)).toBe(true);
+      expect(rotated.decryptPlaidToken(legacyEncrypt('legacy-token', TEST_KEY))).toBe('legacy-token');
+
+      const newCiphertext = rotated.encryptPlaidToken('token');
+      expect(newCiphertext.startsWith('v2:')).toBe(true);
+      expect(() => decryptPlaidToken(newCiphertext)).toThrow('Unknown encryption key ID');
+    });
+
+    it('should reject an active key ID that is not configured', () => {
+      expect(() => loadDbWithEnv({ PLAID_TOKEN_ENCRYPTION_ACTIVE_KEY_ID: 'missing' }))
+        .toThrow('Active encryption key "missing" is not configured');
+    });
+  });
+
   describe('Integration: encrypt and decrypt', () => {
     it('should round-trip correctly', () => {
       const tokens = [
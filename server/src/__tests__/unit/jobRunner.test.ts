@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the background job runner
+ */
+
+import {
+  runForEachUser,
+  runJob,
+  withUserLock,
+  getUserLockHolder,
+  isJobRunning,
+  UserLockedError,
+} from '../../jobs/jobRunner';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Job Runner', () => {
+  describe('runForEachUser', () => {
+    it('should never run more users at once than the configured concurrency', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      const result = await runForEachUser('test', ['u1', 'u2', 'u3', 'u4', 'u5'], async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await tick();
+        active--;
+      }, { concurrency: 2 });
+
+      expect(maxActive).toBe(2);
+      expect(result).toEqual({ total: 5, succeeded: 5, failed: 0, timedOut: 0 });
+    });
+
+    it('should keep going when a user fails or times out', async () => {
+      const result = await runForEachUser('test', ['ok', 'fails', 'slow'], async userId => {
+        if (userId === 'fails') {
+          throw new Error('boom');
+        }
+        if (userId === 'slow') {
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+      }, { concurrency: 1, timeoutMs: 50 });
+
+      expect(result).toEqual({ total: 3, succeeded: 1, failed: 1, timedOut: 1 });
+    });
+
+    it('should wait for a user locked by another job', async () => {
+      const held = deferred();
+      const order: string[] = [];
+
+      const manual = withUserLock('u1', 'manual-sync', async () => {
+        await held.promise;
+        order.push('manual');
+      });
+      const scheduled = runForEachUser('transaction-sync', ['u1'], async () => {
+        order.push('scheduled');
+      });
+
+      await tick();
+      expect(order).toEqual([]);
+
+      held.resolve();
+      await Promise.all([manual, scheduled]);
+      expect(order).toEqual(['manual', 'scheduled']);
+    });
+
+    it('should not start a user that timed out while waiting for the lock', async () => {
+      const held = deferred();
+      const task = jest.fn(async () => undefined);
+
+      const manual = withUserLock('u1', 'manual-sync', () => held.promise);
+      const result = await runForEachUser('transaction-sync', ['u1'], task, { timeoutMs: 20 });
+
+      held.resolve();
+      await manual;
+      await tick();
+
+      expect(result.timedOut).toBe(1);
+      expect(task).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withUserLock', () => {
+    it('should reject straight away when the user is locked', async () => {
+      const held = deferred();
+      const first = withUserLock('u1', 'transaction-sync', () => held.promise);
+
+      expect(getUserLockHolder('u1')).toBe('transaction-sync');
+      await expect(withUserLock('u1', 'manual-sync', async () => undefined)).rejects.toBeInstanceOf(UserLockedError);
+
+      held.resolve();
+      await first;
+      expect(getUserLockHolder('u1')).toBeNull();
+    });
+
+    it('should release the lock when the task throws', async () => {
+      await expect(withUserLock('u1', 'test', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(getUserLockHolder('u1')).toBeNull();
+    });
+  });
+
+  describe('runJob', () => {
+    it('should skip a run while the previous one is still going', async () => {
+      const held = deferred();
+      const first = runJob('balance-sync', () => held.promise);
+
+      expect(isJobRunning('balance-sync')).toBe(true);
+      await expect(runJob('balance-sync', async () => undefined)).resolves.toBe(false);
+
+      held.resolve();
+      await expect(first).resolves.toBe(true);
+      expect(isJobRunning('balance-sync')).toBe(false);
+    });
+  });
+});
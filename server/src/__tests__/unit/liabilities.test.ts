@@ -0,0 +1,59 @@
+/**
+ * Unit tests for credit card liability helpers
+ */
+
+import { CreditLiability, Prisma } from '@prisma/client';
+import { daysUntilDue, formatCalendarDate, isStatementPaid } from '../../utils/liabilities';
+
+function liability(overrides: Partial<CreditLiability>): CreditLiability {
+  return {
+    lastStatementBalance: new Prisma.Decimal(500),
+    lastStatementIssueDate: new Date('2026-03-01T00:00:00.000Z'),
+    lastPaymentAmount: null,
+    lastPaymentDate: null,
+    ...overrides,
+  } as CreditLiability;
+}
+
+describe('Liabilities Utilities', () => {
+  describe('daysUntilDue', () => {
+    const dueDate = new Date('2026-03-25T00:00:00.000Z');
+
+    it('should count whole days from the local date to the due date', () => {
+      expect(daysUntilDue(dueDate, '2026-03-22')).toBe(3);
+      expect(daysUntilDue(dueDate, '2026-03-25')).toBe(0);
+    });
+
+    it('should be negative once the due date has passed', () => {
+      expect(daysUntilDue(dueDate, '2026-03-26')).toBe(-1);
+    });
+  });
+
+  describe('formatCalendarDate', () => {
+    it('should format stored dates as yyyy-MM-dd', () => {
+      expect(formatCalendarDate(new Date('2026-03-25T00:00:00.000Z'))).toBe('2026-03-25');
+      expect(formatCalendarDate(null)).toBeNull();
+    });
+  });
+
+  describe('isStatementPaid', () => {
+    it('should be paid when a payment after the statement covers its balance', () => {
+      expect(isStatementPaid(liability({
+        lastPaymentAmount: new Prisma.Decimal(500),
+        lastPaymentDate: new Date('2026-03-10T00:00:00.000Z'),
+      }))).toBe(true);
+    });
+
+    it('should not be paid by a partial payment or one made before the statement', () => {
+      expect(isStatementPaid(liability({
+        lastPaymentAmount: new Prisma.Decimal(100),
+        lastPaymentDate: new Date('2026-03-10T00:00:00.000Z'),
+      }))).toBe(false);
+      expect(isStatementPaid(liability({
+        lastPaymentAmount: new Prisma.Decimal(500),
+        lastPaymentDate: new Date('2026-02-20T00:00:00.000Z'),
+      }))).toBe(false);
+      expect(isStatementPaid(liability({}))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for local date bucketing
+ */
+
+import {
+  addLocalDays,
+  calendarDateToInstant,
+  isLocalDate,
+  localDateOf,
+  localDateOfReportKey,
+  localDatesBetween,
+  localDayBounds,
+  parseLocalDate,
+  reportDateKey,
+} from '../../utils/localDate';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function dayLengthHours(localDate: string, timezone: string): number {
+  const { start, end } = localDayBounds(localDate, timezone);
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+}
+
+describe('Local Date Utilities', () => {
+  describe('localDayBounds', () => {
+    it('should span the local day in the timezone', () => {
+      const { start, end } = localDayBounds('2026-01-15', 'America/New_York');
+      expect(start.toISOString()).toBe('2026-01-15T05:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-01-16T05:00:00.000Z');
+    });
+
+    it('should be 23 or 25 hours long on DST transitions', () => {
+      expect(dayLengthHours('2026-03-08', 'America/New_York')).toBe(23);
+      expect(dayLengthHours('2026-11-01', 'America/New_York')).toBe(25);
+      expect(dayLengthHours('2026-03-29', 'Europe/London')).toBe(23);
+      expect(dayLengthHours('2026-10-25', 'Europe/London')).toBe(25);
+      // Southern hemisphere: clocks go back in April and forward in September
+      expect(dayLengthHours('2026-04-05', 'Pacific/Auckland')).toBe(25);
+      expect(dayLengthHours('2026-09-27', 'Pacific/Auckland')).toBe(23);
+    });
+
+    it('should handle timezones far ahead of UTC', () => {
+      const { start } = localDayBounds('2026-06-01', 'Pacific/Kiritimati');
+      expect(start.toISOString()).toBe('2026-05-31T10:00:00.000Z');
+    });
+  });
+
+  describe('localDateOf', () => {
+    it('should put instants either side of a DST transition on the right day', () => {
+      // 1:30am EDT on the day clocks go back, then 1:30am EST an hour later
+      expect(localDateOf(new Date('2026-11-01T05:30:00.000Z'), 'America/New_York')).toBe('2026-11-01');
+      expect(localDateOf(new Date('2026-11-01T06:30:00.000Z'), 'America/New_York')).toBe('2026-11-01');
+      // 11:30pm on the day clocks go forward
+      expect(localDateOf(new Date('2026-03-09T03:30:00.000Z'), 'America/New_York')).toBe('2026-03-08');
+      expect(localDateOf(new Date('2026-03-09T04:30:00.000Z'), 'America/New_York')).toBe('2026-03-09');
+    });
+
+    it('should agree with localDayBounds at the edges of the day', () => {
+      const { start, end } = localDayBounds('2026-03-08', 'America/New_York');
+      expect(localDateOf(start, 'America/New_York')).toBe('2026-03-08');
+      expect(localDateOf(new Date(end.getTime() - 1), 'America/New_York')).toBe('2026-03-08');
+      expect(localDateOf(end, 'America/New_York')).toBe('2026-03-09');
+    });
+  });
+
+  describe('calendarDateToInstant', () => {
+    it('should keep Plaid calendar dates on the same local date', () => {
+      for (const timezone of ['America/New_York', 'Europe/London', 'Pacific/Auckland', 'Pacific/Kiritimati']) {
+        for (const date of ['2026-03-08', '2026-11-01', '2026-04-05', '2026-12-31']) {
+          expect(localDateOf(calendarDateToInstant(date, timezone), timezone)).toBe(date);
+        }
+      }
+    });
+  });
+
+  describe('report keys', () => {
+    it('should key reports at UTC midnight of the local date', () => {
+      expect(reportDateKey('2026-03-08').toISOString()).toBe('2026-03-08T00:00:00.000Z');
+      expect(localDateOfReportKey(reportDateKey('2026-03-08'))).toBe('2026-03-08');
+    });
+  });
+
+  describe('addLocalDays and localDatesBetween', () => {
+    it('should step across month, year and DST boundaries one calendar day at a time', () => {
+      expect(addLocalDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(addLocalDays('2026-03-01', -1)).toBe('2026-02-28');
+      expect(localDatesBetween('2026-03-07', '2026-03-09')).toEqual(['2026-03-07', '2026-03-08', '2026-03-09']);
+      expect(localDatesBetween('2026-03-09', '2026-03-07')).toEqual([]);
+    });
+  });
+
+  describe('isLocalDate', () => {
+    it('should only accept real calendar dates', () => {
+      expect(isLocalDate('2028-02-29')).toBe(true);
+      expect(isLocalDate('2026-02-29')).toBe(false);
+      expect(isLocalDate('2026-13-01')).toBe(false);
+      expect(isLocalDate('2026-03-08T00:00:00Z')).toBe(false);
+      expect(isLocalDate(20260308)).toBe(false);
+    });
+  });
+
+  describe('parseLocalDate', () => {
+    it('should take plain dates as the local date and convert timestamps', () => {
+      expect(parseLocalDate('2026-03-08', 'Pacific/Auckland')).toBe('2026-03-08');
+      expect(parseLocalDate('2026-03-08T20:00:00.000Z', 'Pacific/Auckland')).toBe('2026-03-09');
+      expect(parseLocalDate('2026-03-08T02:00:00.000Z', 'America/New_York')).toBe('2026-03-07');
+    });
+  });
+});
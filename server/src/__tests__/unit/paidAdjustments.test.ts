@@ -0,0 +1,63 @@
+/**
+ * Unit tests for changes to paid days
+ */
+
+import { Prisma } from '@prisma/client';
+import { describeLocalDate, paidDelta } from '../../utils/paidAdjustments';
+
+describe('Paid Day Adjustments', () => {
+  describe('paidDelta', () => {
+    const paidAt = new Date('2026-03-03T02:00:00.000Z');
+
+    it('should be the change in amount owed since the day was paid', () => {
+      expect(paidDelta({
+        markedPaidAt: paidAt,
+        paidAmount: new Prisma.Decimal(10.5),
+        amountOwed: new Prisma.Decimal(13.7),
+      })).toBeCloseTo(3.2, 2);
+
+      expect(paidDelta({
+        markedPaidAt: paidAt,
+        paidAmount: new Prisma.Decimal(10.5),
+        amountOwed: new Prisma.Decimal(8),
+      })).toBeCloseTo(-2.5, 2);
+    });
+
+    it('should ignore unpaid days and days paid before amounts were recorded', () => {
+      expect(paidDelta({
+        markedPaidAt: null,
+        paidAmount: new Prisma.Decimal(10.5),
+        amountOwed: new Prisma.Decimal(13.7),
+      })).toBe(0);
+
+      expect(paidDelta({
+        markedPaidAt: paidAt,
+        paidAmount: null,
+        amountOwed: new Prisma.Decimal(13.7),
+      })).toBe(0);
+    });
+
+    it('should ignore sub-cent differences', () => {
+      expect(paidDelta({
+        markedPaidAt: paidAt,
+        paidAmount: new Prisma.Decimal('10.5'),
+        amountOwed: new Prisma.Decimal('10.501'),
+      })).toBe(0);
+    });
+  });
+
+  describe('describeLocalDate', () => {
+    const today = '2026-03-05'; // A Thursday
+
+    it('should name recent days relative to today', () => {
+      expect(describeLocalDate('2026-03-05', today)).toBe('today');
+      expect(describeLocalDate('2026-03-04', today)).toBe('yesterday');
+      expect(describeLocalDate('2026-03-03', today)).toBe('Tuesday');
+      expect(describeLocalDate('2026-02-27', today)).toBe('Friday');
+    });
+
+    it('should use the date for days more than a week back', () => {
+      expect(describeLocalDate('2026-02-26', today)).toBe('February 26');
+    });
+  });
+});
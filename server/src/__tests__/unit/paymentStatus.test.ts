@@ -0,0 +1,53 @@
+/**
+ * Unit tests for day payment status
+ */
+
+import { Prisma } from '@prisma/client';
+import { describePaymentStatus, sumPayments } from '../../utils/paymentStatus';
+
+function payments(...amounts: number[]) {
+  return amounts.map(amount => ({ amount: new Prisma.Decimal(amount) }));
+}
+
+describe('Payment Status Utilities', () => {
+  describe('sumPayments', () => {
+    it('should add up payment records to the cent', () => {
+      expect(sumPayments(payments(0.1, 0.2))).toBe(0.3);
+      expect(sumPayments([])).toBe(0);
+    });
+  });
+
+  describe('describePaymentStatus', () => {
+    it('should be unpaid without payments', () => {
+      expect(describePaymentStatus({ amountOwed: 40, markedPaidAt: null, payments: [] })).toEqual({
+        paid: 0,
+        remaining: 40,
+        status: 'unpaid',
+      });
+    });
+
+    it('should be partial while payments leave something to pay', () => {
+      expect(describePaymentStatus({ amountOwed: 40, markedPaidAt: null, payments: payments(15, 5.5) })).toEqual({
+        paid: 20.5,
+        remaining: 19.5,
+        status: 'partial',
+      });
+    });
+
+    it('should leave nothing remaining once the day is paid', () => {
+      expect(describePaymentStatus({
+        amountOwed: new Prisma.Decimal(43.2),
+        markedPaidAt: new Date(),
+        payments: payments(40),
+      })).toEqual({
+        paid: 40,
+        remaining: 0,
+        status: 'paid',
+      });
+    });
+
+    it('should never report a negative remainder', () => {
+      expect(describePaymentStatus({ amountOwed: 10, markedPaidAt: null, payments: payments(12) }).remaining).toBe(0);
+    });
+  });
+});
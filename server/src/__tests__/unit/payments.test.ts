@@ -0,0 +1,50 @@
+/**
+ * Unit tests for card payment detection and matching
+ */
+
+import { isCardPayment, countCoveredReports } from '../../utils/payments';
+
+describe('Payment Utilities', () => {
+  describe('isCardPayment', () => {
+    it('should detect payments by their Plaid category on either side', () => {
+      expect(isCardPayment({
+        name: 'AUTOPAY PAYMENT - THANK YOU',
+        amount: -250,
+        categoryPrimary: 'LOAN_PAYMENTS',
+        categoryDetailed: 'LOAN_PAYMENTS_CREDIT_CARD_PAYMENT',
+      })).toBe(true);
+      expect(isCardPayment({
+        name: 'CHASE CREDIT CRD EPAY',
+        amount: 250,
+        categoryPrimary: 'LOAN_PAYMENTS',
+        categoryDetailed: 'LOAN_PAYMENTS_CREDIT_CARD_PAYMENT',
+      })).toBe(true);
+    });
+
+    it('should fall back to the name for uncategorised credits', () => {
+      expect(isCardPayment({ name: 'Payment Received', amount: -100, categoryPrimary: null, categoryDetailed: null })).toBe(true);
+      expect(isCardPayment({ name: 'Payment Received', amount: 100, categoryPrimary: null, categoryDetailed: null })).toBe(false);
+    });
+
+    it('should not treat refunds as payments', () => {
+      expect(isCardPayment({
+        name: 'AMAZON.COM REFUND',
+        amount: -30,
+        categoryPrimary: 'GENERAL_MERCHANDISE',
+        categoryDetailed: 'GENERAL_MERCHANDISE_ONLINE_MARKETPLACES',
+      })).toBe(false);
+    });
+  });
+
+  describe('countCoveredReports', () => {
+    it('should cover reports oldest first while the payment lasts', () => {
+      expect(countCoveredReports(100, [40, 60, 10])).toBe(2);
+      expect(countCoveredReports(100.005, [33.33, 33.34, 33.33])).toBe(3);
+    });
+
+    it('should stop at the first report the payment cannot cover in full', () => {
+      expect(countCoveredReports(50, [60, 10])).toBe(0);
+      expect(countCoveredReports(0, [10])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for Plaid webhook verification
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JWKPublicKey } from 'plaid';
+import { env } from '../../config/env';
+import { verifyWebhookSignature, setWebhookKeyFetcher } from '../../utils/plaidWebhook';
+
+const KEY_ID = 'test-webhook-key';
+
+function createSigningKey() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const exported = publicKey.export({ format: 'jwk' });
+
+  const jwk: JWKPublicKey = {
+    alg: 'ES256',
+    crv: exported.crv!,
+    kid: KEY_ID,
+    kty: exported.kty!,
+    use: 'sig',
+    x: exported.x!,
+    y: exported.y!,
+    created_at: Math.floor(Date.now() / 1000),
+    expired_at: null,
+  };
+
+  return { privateKey, jwk };
+}
+
+function signBody(privateKey: crypto.KeyObject, body: string, overrides: Record<string, unknown> = {}) {
+  const payload = {
+    request_body_sha256: crypto.createHash('sha256').update(body).digest('hex'),
+    ...overrides,
+  };
+  return jwt.sign(payload, privateKey, { algorithm: 'ES256', keyid: KEY_ID });
+}
+
+describe('Plaid webhook verification', () => {
+  const body = JSON.stringify({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' });
+  const { privateKey, jwk } = createSigningKey();
+  let fetchKey: jest.Mock;
+
+  beforeEach(() => {
+    fetchKey = jest.fn(async () => jwk);
+    setWebhookKeyFetcher(fetchKey);
+  });
+
+  afterEach(() => {
+    env.plaidWebhookVerificationRequired = false;
+  });
+
+  afterAll(() => {
+    setWebhookKeyFetcher();
+  });
+
+  it('should accept a webhook signed with the published key', async () => {
+    const token = signBody(privateKey, body);
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(true);
+    expect(fetchKey).toHaveBeenCalledWith(KEY_ID);
+  });
+
+  it('should reject a webhook whose body does not match the signed hash', async () => {
+    const token = signBody(privateKey, body);
+    const tampered = body.replace('item-1', 'item-2');
+
+    await expect(verifyWebhookSignature(tampered, token)).resolves.toBe(false);
+  });
+
+  it('should reject a token older than five minutes', async () => {
+    const token = signBody(privateKey, body, { iat: Math.floor(Date.now() / 1000) - 10 * 60 });
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(false);
+  });
+
+  it('should reject a token signed with a different key', async () => {
+    const other = createSigningKey();
+    const token = signBody(other.privateKey, body);
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(false);
+  });
+
+  it('should reject tokens that are not ES256', async () => {
+    const token = jwt.sign(
+      { request_body_sha256: crypto.createHash('sha256').update(body).digest('hex') },
+      'shared-secret',
+      { algorithm: 'HS256', keyid: KEY_ID }
+    );
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(false);
+    expect(fetchKey).not.toHaveBeenCalled();
+  });
+
+  it('should reject a webhook signed with an expired key', async () => {
+    fetchKey.mockResolvedValue({ ...jwk, expired_at: Math.floor(Date.now() / 1000) });
+    const token = signBody(privateKey, body);
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(false);
+  });
+
+  it('should reject the webhook when the key lookup fails', async () => {
+    fetchKey.mockRejectedValue(new Error('network down'));
+    const token = signBody(privateKey, body);
+
+    await expect(verifyWebhookSignature(body, token)).resolves.toBe(false);
+  });
+
+  it('should cache keys by key id', async () => {
+    await verifyWebhookSignature(body, signBody(privateKey, body));
+    await verifyWebhookSignature(body, signBody(privateKey, body));
+
+    expect(fetchKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept webhooks without a verification header when verification is not required', async () => {
+    env.plaidWebhookVerificationRequired = false;
+
+    await expect(verifyWebhookSignature(body, undefined)).resolves.toBe(true);
+  });
+
+  it('should reject webhooks without a verification header when verification is required', async () => {
+    env.plaidWebhookVerificationRequired = true;
+
+    await expect(verifyWebhookSignature(body, undefined)).resolves.toBe(false);
+  });
+});
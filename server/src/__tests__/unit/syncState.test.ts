@@ -0,0 +1,26 @@
+/**
+ * Unit tests for sync backoff
+ */
+
+import { getBackoffDelayMs } from '../../utils/syncState';
+
+const MINUTE = 60 * 1000;
+
+describe('Sync State', () => {
+  describe('getBackoffDelayMs', () => {
+    it('should not delay items without failures', () => {
+      expect(getBackoffDelayMs(0)).toBe(0);
+    });
+
+    it('should double the delay with each consecutive failure', () => {
+      expect(getBackoffDelayMs(1)).toBe(15 * MINUTE);
+      expect(getBackoffDelayMs(2)).toBe(30 * MINUTE);
+      expect(getBackoffDelayMs(3)).toBe(60 * MINUTE);
+    });
+
+    it('should cap the delay at one day', () => {
+      expect(getBackoffDelayMs(10)).toBe(24 * 60 * MINUTE);
+      expect(getBackoffDelayMs(100)).toBe(24 * 60 * MINUTE);
+    });
+  });
+});
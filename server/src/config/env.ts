@@ -3,13 +3,19 @@
  * Validates required environment variables on startup and fails fast with clear error messages
  */
 
+export type ProcessRole = 'all' | 'api' | 'worker';
+
 interface EnvConfig {
   databaseUrl: string;
   jwtSecret: string;
   plaidClientId: string;
   plaidSecret: string;
   plaidEnv: string;
-  plaidTokenEncryptionKey: string;
+  // Days of transaction history requested when an item is first linked (Plaid allows up to 730)
+  plaidTransactionsDaysRequested: number;
+  // Plaid token encryption: a single key, or keyId:hexKey pairs for rotation
+  plaidTokenEncryptionKey?: string;
+  plaidTokenEncryptionKeys?: string;
   port: number;
   nodeEnv: string;
   // Optional APNs configuration
@@ -17,29 +23,44 @@ interface EnvConfig {
   apnsTeamId?: string;
   apnsBundleId?: string;
   apnsKeyPath?: string;
-  // Optional webhook configuration
-  plaidWebhookVerificationKey?: string;
+  // Webhook verification: reject webhooks that can't be verified (defaults to on in production)
+  plaidWebhookVerificationRequired: boolean;
   // Optional admin configuration
   adminApiKey?: string;
   // Optional CORS configuration
   allowedOrigins?: string;
+  // Optional exchange rate source for converting totals to a user's home currency
+  exchangeRatesUrl?: string;
+  // Background jobs: users processed in parallel per run, and how long to wait on one user
+  jobConcurrency: number;
+  jobUserTimeoutMs: number;
+  // What this instance runs: the HTTP API, scheduled jobs, or both
+  processRole: ProcessRole;
 }
 
 // If TEST_MODE is enabled, Plaid vars are optional
 const isTestMode = process.env.TEST_MODE === 'true';
 
 const requiredEnvVars = isTestMode
-  ? ['DATABASE_URL', 'JWT_SECRET', 'PLAID_TOKEN_ENCRYPTION_KEY']
-  : ['DATABASE_URL', 'JWT_SECRET', 'PLAID_CLIENT_ID', 'PLAID_SECRET', 'PLAID_ENV', 'PLAID_TOKEN_ENCRYPTION_KEY'];
+  ? ['DATABASE_URL', 'JWT_SECRET']
+  : ['DATABASE_URL', 'JWT_SECRET', 'PLAID_CLIENT_ID', 'PLAID_SECRET', 'PLAID_ENV'];
 
 const optionalEnvVars = [
+  'PLAID_TOKEN_ENCRYPTION_KEYS',
+  'PLAID_TOKEN_ENCRYPTION_KEY_ID',
+  'PLAID_TRANSACTIONS_DAYS_REQUESTED',
+  'PLAID_TOKEN_ENCRYPTION_ACTIVE_KEY_ID',
   'APNS_KEY_ID',
   'APNS_TEAM_ID',
   'APNS_BUNDLE_ID',
   'APNS_KEY_PATH',
-  'PLAID_WEBHOOK_VERIFICATION_KEY',
+  'PLAID_WEBHOOK_VERIFICATION_REQUIRED',
   'ADMIN_API_KEY',
   'ALLOWED_ORIGINS',
+  'EXCHANGE_RATES_URL',
+  'JOB_CONCURRENCY',
+  'JOB_USER_TIMEOUT_MS',
+  'PROCESS_ROLE',
   // In test mode, Plaid vars are optional
   ...(isTestMode ? ['PLAID_CLIENT_ID', 'PLAID_SECRET', 'PLAID_ENV'] : []),
 ] as const;
@@ -50,16 +71,38 @@ function validateEnvVar(name: string, value: string | undefined, required: boole
   }
 }
 
-function validateEncryptionKey(key: string): void {
+function validateEncryptionKey(key: string, name = 'PLAID_TOKEN_ENCRYPTION_KEY'): void {
   if (key.length !== 64) {
     throw new Error(
-      `PLAID_TOKEN_ENCRYPTION_KEY must be a 32-byte hex string (64 characters), got ${key.length} characters`
+      `${name} must be a 32-byte hex string (64 characters), got ${key.length} characters`
     );
   }
   
   // Validate it's a valid hex string
   if (!/^[0-9a-fA-F]{64}$/.test(key)) {
-    throw new Error('PLAID_TOKEN_ENCRYPTION_KEY must be a valid hex string');
+    throw new Error(`${name} must be a valid hex string`);
+  }
+}
+
+function validateEncryptionKeyList(keyList: string): void {
+  for (const entry of keyList.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [keyId, key, ...rest] = entry.split(':');
+    if (!keyId || !key || rest.length > 0) {
+      throw new Error('PLAID_TOKEN_ENCRYPTION_KEYS entries must be in keyId:hexKey format');
+    }
+    if (!/^[A-Za-z0-9_-]+$/.test(keyId)) {
+      throw new Error(`PLAID_TOKEN_ENCRYPTION_KEYS key ID "${keyId}" may only contain letters, digits, "_" and "-"`);
+    }
+    validateEncryptionKey(key, `PLAID_TOKEN_ENCRYPTION_KEYS key "${keyId}"`);
+  }
+}
+
+function validateProcessRole(role: string): void {
+  const validRoles = ['all', 'api', 'worker'];
+  if (!validRoles.includes(role)) {
+    throw new Error(
+      `PROCESS_ROLE must be one of: ${validRoles.join(', ')}, got: ${role}`
+    );
   }
 }
 
@@ -98,6 +141,10 @@ export function validateEnvironment(): EnvConfig {
 
   // Validate specific formats (only if not in test mode or if values are provided)
   const plaidTokenKey = process.env.PLAID_TOKEN_ENCRYPTION_KEY;
+  const plaidTokenKeys = process.env.PLAID_TOKEN_ENCRYPTION_KEYS;
+  if (!plaidTokenKey && !plaidTokenKeys) {
+    errors.push('Either PLAID_TOKEN_ENCRYPTION_KEY or PLAID_TOKEN_ENCRYPTION_KEYS must be set');
+  }
   if (plaidTokenKey) {
     try {
       validateEncryptionKey(plaidTokenKey);
@@ -105,6 +152,13 @@ export function validateEnvironment(): EnvConfig {
       errors.push((error as Error).message);
     }
   }
+  if (plaidTokenKeys) {
+    try {
+      validateEncryptionKeyList(plaidTokenKeys);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
 
   const plaidEnv = process.env.PLAID_ENV;
   if (plaidEnv) {
@@ -115,6 +169,27 @@ export function validateEnvironment(): EnvConfig {
     }
   }
 
+  for (const varName of ['JOB_CONCURRENCY', 'JOB_USER_TIMEOUT_MS']) {
+    const value = process.env[varName];
+    if (value && !/^[1-9][0-9]*$/.test(value)) {
+      errors.push(`${varName} must be a positive integer, got: ${value}`);
+    }
+  }
+
+  const daysRequested = process.env.PLAID_TRANSACTIONS_DAYS_REQUESTED;
+  if (daysRequested && (!/^[0-9]+$/.test(daysRequested) || +daysRequested < 1 || +daysRequested > 730)) {
+    errors.push(`PLAID_TRANSACTIONS_DAYS_REQUESTED must be an integer between 1 and 730, got: ${daysRequested}`);
+  }
+
+  const processRole = process.env.PROCESS_ROLE;
+  if (processRole) {
+    try {
+      validateProcessRole(processRole);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
   // Display warnings
   if (warnings.length > 0) {
     console.warn('\n⚠️  Environment Variable Warnings:');
@@ -137,16 +212,24 @@ export function validateEnvironment(): EnvConfig {
     plaidClientId: process.env.PLAID_CLIENT_ID!,
     plaidSecret: process.env.PLAID_SECRET!,
     plaidEnv: (process.env.PLAID_ENV || 'sandbox').toLowerCase(),
-    plaidTokenEncryptionKey: process.env.PLAID_TOKEN_ENCRYPTION_KEY!,
+    plaidTransactionsDaysRequested: parseInt(process.env.PLAID_TRANSACTIONS_DAYS_REQUESTED || '90', 10),
+    plaidTokenEncryptionKey: process.env.PLAID_TOKEN_ENCRYPTION_KEY,
+    plaidTokenEncryptionKeys: process.env.PLAID_TOKEN_ENCRYPTION_KEYS,
     port: parseInt(process.env.PORT || '3000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
     apnsKeyId: process.env.APNS_KEY_ID,
     apnsTeamId: process.env.APNS_TEAM_ID,
     apnsBundleId: process.env.APNS_BUNDLE_ID,
     apnsKeyPath: process.env.APNS_KEY_PATH,
-    plaidWebhookVerificationKey: process.env.PLAID_WEBHOOK_VERIFICATION_KEY,
+    plaidWebhookVerificationRequired: process.env.PLAID_WEBHOOK_VERIFICATION_REQUIRED
+      ? process.env.PLAID_WEBHOOK_VERIFICATION_REQUIRED === 'true'
+      : (process.env.NODE_ENV || 'development') === 'production',
     adminApiKey: process.env.ADMIN_API_KEY,
     allowedOrigins: process.env.ALLOWED_ORIGINS,
+    exchangeRatesUrl: process.env.EXCHANGE_RATES_URL,
+    jobConcurrency: parseInt(process.env.JOB_CONCURRENCY || '4', 10),
+    jobUserTimeoutMs: parseInt(process.env.JOB_USER_TIMEOUT_MS || String(5 * 60 * 1000), 10),
+    processRole: (process.env.PROCESS_ROLE || 'all') as ProcessRole,
   };
 
   return config;
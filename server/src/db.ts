@@ -4,53 +4,118 @@ import crypto from 'crypto';
 const prisma = new PrismaClient();
 
 // Encryption utilities for Plaid access tokens
-const ENCRYPTION_KEY = process.env.PLAID_TOKEN_ENCRYPTION_KEY;
+// Ciphertexts are stored as keyId:iv:authTag:encrypted so several keys can be active
+// at once while tokens are rotated. Values written before key IDs existed have no
+// keyId prefix (iv:authTag:encrypted) and are decrypted by trying each configured key.
 const ALGORITHM = 'aes-256-gcm';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 
-if (!ENCRYPTION_KEY) {
-  throw new Error('PLAID_TOKEN_ENCRYPTION_KEY environment variable is required');
+function parseEncryptionKey(keyId: string, hex: string): Buffer {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new Error(`Encryption key ID "${keyId}" may only contain letters, digits, "_" and "-"`);
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`Encryption key "${keyId}" must be a 32-byte hex string (64 characters)`);
+  }
+  return Buffer.from(hex, 'hex');
 }
 
-if (ENCRYPTION_KEY.length !== 64) {
-  throw new Error('PLAID_TOKEN_ENCRYPTION_KEY must be a 32-byte hex string (64 characters)');
+function loadEncryptionKeys(): { keys: Map<string, Buffer>; activeKeyId: string } {
+  const keys = new Map<string, Buffer>();
+
+  // PLAID_TOKEN_ENCRYPTION_KEYS: comma-separated keyId:hexKey pairs, e.g. "2026a:...,2025b:..."
+  const keyList = process.env.PLAID_TOKEN_ENCRYPTION_KEYS;
+  if (keyList) {
+    for (const entry of keyList.split(',').map(e => e.trim()).filter(Boolean)) {
+      const [keyId, hex, ...rest] = entry.split(':');
+      if (!keyId || !hex || rest.length > 0) {
+        throw new Error('PLAID_TOKEN_ENCRYPTION_KEYS entries must be in keyId:hexKey format');
+      }
+      keys.set(keyId, parseEncryptionKey(keyId, hex));
+    }
+  }
+
+  // Single-key setup; the key gets the ID from PLAID_TOKEN_ENCRYPTION_KEY_ID (default "v1")
+  const singleKey = process.env.PLAID_TOKEN_ENCRYPTION_KEY;
+  const singleKeyId = process.env.PLAID_TOKEN_ENCRYPTION_KEY_ID || 'v1';
+  if (singleKey && !keys.has(singleKeyId)) {
+    keys.set(singleKeyId, parseEncryptionKey(singleKeyId, singleKey));
+  }
+
+  if (keys.size === 0) {
+    throw new Error('PLAID_TOKEN_ENCRYPTION_KEY or PLAID_TOKEN_ENCRYPTION_KEYS environment variable is required');
+  }
+
+  const activeKeyId = process.env.PLAID_TOKEN_ENCRYPTION_ACTIVE_KEY_ID || keys.keys().next().value!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`Active encryption key "${activeKeyId}" is not configured`);
+  }
+
+  return { keys, activeKeyId };
 }
 
-const key = Buffer.from(ENCRYPTION_KEY, 'hex');
+const { keys: encryptionKeys, activeKeyId } = loadEncryptionKeys();
+
+function decryptWithKey(key: Buffer, ivHex: string, authTagHex: string, encrypted: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
+export function getActiveEncryptionKeyId(): string {
+  return activeKeyId;
+}
 
 export function encryptPlaidToken(plaintext: string): string {
   const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKeys.get(activeKeyId)!, iv);
   
   let encrypted = cipher.update(plaintext, 'utf8', 'hex');
   encrypted += cipher.final('hex');
   
   const authTag = cipher.getAuthTag();
   
-  // Combine iv, authTag, and encrypted data
-  return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+  // Combine key ID, iv, authTag, and encrypted data
+  return activeKeyId + ':' + iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
 }
 
 export function decryptPlaidToken(encryptedData: string): string {
   const parts = encryptedData.split(':');
-  if (parts.length !== 3) {
-    throw new Error('Invalid encrypted data format');
-  }
-  
-  const iv = Buffer.from(parts[0], 'hex');
-  const authTag = Buffer.from(parts[1], 'hex');
-  const encrypted = parts[2];
-  
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
-}
 
-export default prisma;
+  if (parts.length === 4) {
+    const [keyId, iv, authTag, encrypted] = parts;
+    const key = encryptionKeys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key ID: ${keyId}`);
+    }
+    return decryptWithKey(key, iv, authTag, encrypted);
+  }
 
+  if (parts.length === 3) {
+    // Legacy format without a key ID; GCM authentication rejects the wrong keys
+    const [iv, authTag, encrypted] = parts;
+    for (const key of encryptionKeys.values()) {
+      try {
+        return decryptWithKey(key, iv, authTag, encrypted);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw new Error('No configured encryption key can decrypt this value');
+  }
 
+  throw new Error('Invalid encrypted data format');
+}
 
+/**
+ * Whether a stored ciphertext should be re-encrypted with the active key
+ */
+export function needsReencryption(encryptedData: string): boolean {
+  return !encryptedData.startsWith(activeKeyId + ':') || encryptedData.split(':').length !== 4;
+}
 
+export default prisma;
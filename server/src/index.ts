@@ -15,6 +15,12 @@ import { startNotificationScheduler } from './jobs/sendNotifications';
 import { startDailyReportComputationJob } from './jobs/computeDailyReports';
 import { startDeviceCleanupJob } from './jobs/cleanupDevices';
 import { startBalanceSyncJob } from './jobs/syncBalances';
+import { startAccountRefreshJob } from './jobs/syncAccounts';
+import { startItemRemovalJob } from './jobs/removePlaidItems';
+import { startWebhookProcessingJob } from './jobs/processWebhooks';
+import { startBackfillJob } from './jobs/backfillItems';
+import { startLiabilitiesSyncJob } from './jobs/syncLiabilities';
+import { isSchedulerLeader, startLeaderElection, stopLeaderElection } from './jobs/leader';
 import { initializeAPNs } from './push';
 import { env } from './config/env';
 import logger from './utils/logger';
@@ -37,6 +43,10 @@ try {
 const app = express();
 const PORT = env.port;
 
+// PROCESS_ROLE: "api" serves requests only, "worker" runs scheduled jobs only, "all" does both
+const runsApi = env.processRole !== 'worker';
+const runsWorker = env.processRole !== 'api';
+
 // Security middleware - Helmet for security headers
 app.use(helmet({
   contentSecurityPolicy: {
@@ -75,6 +85,8 @@ app.use(cors({
 }));
 
 // Body parsing middleware
+// Plaid webhooks are verified against a hash of the exact bytes received, so keep their raw body
+app.use('/plaid/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' })); // Limit request body size
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -97,6 +109,7 @@ app.get('/health', async (req, res) => {
       plaid: { status: string; error?: string };
       apns: { status: string; configured: boolean; error?: string };
       environment: { status: string; nodeEnv: string };
+      scheduler: { role: string; leader: boolean };
     } = {
       status: 'ok',
       timestamp: new Date().toISOString(),
@@ -104,6 +117,7 @@ app.get('/health', async (req, res) => {
       plaid: { status: 'unknown' },
       apns: { status: 'unknown', configured: false },
       environment: { status: 'ok', nodeEnv: env.nodeEnv },
+      scheduler: { role: env.processRole, leader: isSchedulerLeader() },
     };
 
     // Check database connectivity
@@ -157,13 +171,16 @@ app.get('/health', async (req, res) => {
 });
 
 // Routes with specific rate limiters
-app.use('/auth', authLimiter, authRoutes); // Stricter rate limiting for auth
-app.use('/plaid', plaidLimiter, plaidRoutes); // Moderate rate limiting for Plaid
-app.use('/today', todayRoutes);
-app.use('/history', historyRoutes);
-app.use('/settings', settingsRoutes);
-app.use('/device', deviceRoutes);
-app.use('/admin', adminRoutes); // Admin routes (protected by API key)
+// Worker-only instances keep just the health check
+if (runsApi) {
+  app.use('/auth', authLimiter, authRoutes); // Stricter rate limiting for auth
+  app.use('/plaid', plaidLimiter, plaidRoutes); // Moderate rate limiting for Plaid
+  app.use('/today', todayRoutes);
+  app.use('/history', historyRoutes);
+  app.use('/settings', settingsRoutes);
+  app.use('/device', deviceRoutes);
+  app.use('/admin', adminRoutes); // Admin routes (protected by API key)
+}
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
@@ -172,17 +189,40 @@ app.listen(PORT, '0.0.0.0', () => {
   logger.info(`Server running on port ${PORT}`, { 
     port: PORT, 
     nodeEnv: env.nodeEnv,
+    processRole: env.processRole,
     accessibleFromNetwork: `http://0.0.0.0:${PORT}`
   });
   
   // Initialize APNs
   initializeAPNs();
   
-  // Start background jobs
+  if (!runsWorker) {
+    return;
+  }
+
+  // Start background jobs; they only run while this instance holds the scheduler lease
+  startLeaderElection().catch(error => {
+    logger.error('Failed to start scheduler leader election', { error });
+  });
   startTransactionSyncJob();
   startNotificationScheduler();
   startDailyReportComputationJob();
   startDeviceCleanupJob();
   startBalanceSyncJob();
+  startAccountRefreshJob();
+  startItemRemovalJob();
+  startWebhookProcessingJob();
+  startBackfillJob();
+  startLiabilitiesSyncJob();
 });
 
+// Hand the scheduler lease back on shutdown so another instance can take over without waiting for it to expire
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    logger.info('Shutting down', { signal });
+    stopLeaderElection()
+      .catch(error => logger.error('Failed to release scheduler lease', { error }))
+      .finally(() => process.exit(0));
+  });
+}
+
@@ -0,0 +1,197 @@
+/**
+ * Historical backfill job
+ * After an item is first linked, Plaid keeps pulling its transaction history in the
+ * background. This job syncs until Plaid reports the history complete, then generates a
+ * daily report for every day in the requested window so /history is populated straight
+ * away. Progress is recorded on the PlaidItem.
+ */
+
+import prisma, { decryptPlaidToken } from '../db';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { addLocalDays, localDateOf } from '../utils/localDate';
+import { extractPlaidError, logPlaidError } from '../utils/plaidErrors';
+import { recordSyncFailure, recordSyncSuccess } from '../utils/syncState';
+import { getTrackedCreditAccountIds } from '../utils/trackedAccounts';
+import { applyCardPayments } from '../utils/payments';
+import { syncItemTransactions } from './syncTransactions';
+import { recomputeDailyReportsForRange } from './computeDailyReports';
+import { scheduleJob, UserLockedError, withUserLock } from './jobRunner';
+
+// Statuses the job keeps working on; complete, skipped and failed are final
+const ACTIVE_BACKFILL_STATUSES = ['pending', 'waiting_for_history', 'waiting_for_accounts', 'computing_reports'];
+// Plaid normally finishes pulling history within minutes
+const MAX_HISTORY_WAIT_MS = 24 * 60 * 60 * 1000;
+// Users normally pick their cards right after linking
+const MAX_ACCOUNTS_WAIT_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Mark a newly linked item for backfill
+ */
+export async function queueItemBackfill(plaidItemId: string): Promise<void> {
+  await prisma.plaidItem.update({
+    where: { id: plaidItemId },
+    data: {
+      backfillStatus: 'pending',
+      backfillDaysRequested: env.plaidTransactionsDaysRequested,
+      backfillDaysTotal: 0,
+      backfillDaysCompleted: 0,
+      backfillStartedAt: new Date(),
+      backfillCompletedAt: null,
+      backfillError: null,
+    },
+  });
+}
+
+/**
+ * Advance an item's backfill as far as it can go right now
+ * Throws UserLockedError while another job is working on the user
+ */
+export async function runItemBackfill(plaidItemId: string): Promise<void> {
+  const plaidItem = await prisma.plaidItem.findUnique({
+    where: { id: plaidItemId },
+  });
+
+  if (!plaidItem || !plaidItem.backfillStatus || !ACTIVE_BACKFILL_STATUSES.includes(plaidItem.backfillStatus)) {
+    return;
+  }
+
+  // Resumes once the item is repaired
+  if (plaidItem.status === 'expired' || plaidItem.status === 'revoked') {
+    return;
+  }
+
+  const { userId } = plaidItem;
+  const startedAt = plaidItem.backfillStartedAt || plaidItem.createdAt;
+  const waitedMs = Date.now() - startedAt.getTime();
+
+  await withUserLock(userId, 'backfill', async () => {
+    if (plaidItem.backfillStatus === 'pending' || plaidItem.backfillStatus === 'waiting_for_history') {
+      let historicalUpdateComplete: boolean;
+      try {
+        const result = await syncItemTransactions(plaidItem, decryptPlaidToken(plaidItem.accessTokenEncrypted));
+        await recordSyncSuccess(plaidItem.id, 'transactions');
+        historicalUpdateComplete = result.historicalUpdateComplete;
+      } catch (error) {
+        logPlaidError(error, { userId, itemId: plaidItem.itemId, operation: 'transactionsSync (backfill)' });
+        await recordSyncFailure(plaidItem.id, 'transactions', error);
+        await prisma.plaidItem.update({
+          where: { id: plaidItem.id },
+          data: { backfillError: extractPlaidError(error)?.error_code || (error as Error).message },
+        });
+        return;
+      }
+
+      if (!historicalUpdateComplete) {
+        const timedOut = waitedMs > MAX_HISTORY_WAIT_MS;
+        await prisma.plaidItem.update({
+          where: { id: plaidItem.id },
+          data: timedOut
+            ? { backfillStatus: 'failed', backfillError: 'HISTORY_NOT_READY' }
+            : { backfillStatus: 'waiting_for_history', backfillError: null },
+        });
+        if (timedOut) {
+          logger.warn('Gave up waiting for Plaid transaction history', { userId, itemId: plaidItem.itemId });
+        }
+        return;
+      }
+    }
+
+    // Reports need the user's timezone and at least one tracked card on this item
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+    const trackedAccountIds = await getTrackedCreditAccountIds(userId);
+    const trackedOnItem = await prisma.account.count({
+      where: { plaidItemId: plaidItem.id, accountId: { in: trackedAccountIds } },
+    });
+
+    if (!user?.timezone || trackedOnItem === 0) {
+      const gaveUp = waitedMs > MAX_ACCOUNTS_WAIT_MS;
+      await prisma.plaidItem.update({
+        where: { id: plaidItem.id },
+        data: gaveUp
+          ? { backfillStatus: 'skipped', backfillCompletedAt: new Date(), backfillError: null }
+          : { backfillStatus: 'waiting_for_accounts', backfillError: null },
+      });
+      return;
+    }
+
+    const now = new Date();
+    const daysRequested = plaidItem.backfillDaysRequested || env.plaidTransactionsDaysRequested;
+    const today = localDateOf(now, user.timezone);
+    const startDay = addLocalDays(today, -daysRequested);
+    // Today's report is still changing; the daily job computes it once the day is over
+    const endDay = addLocalDays(today, -1);
+
+    await prisma.plaidItem.update({
+      where: { id: plaidItem.id },
+      data: {
+        backfillStatus: 'computing_reports',
+        backfillDaysTotal: daysRequested,
+        backfillDaysCompleted: 0,
+        backfillError: null,
+      },
+    });
+
+    const daysComputed = await recomputeDailyReportsForRange(userId, startDay, endDay, async (completed, total) => {
+      await prisma.plaidItem.update({
+        where: { id: plaidItem.id },
+        data: { backfillDaysCompleted: completed, backfillDaysTotal: total },
+      });
+    });
+
+    await prisma.plaidItem.update({
+      where: { id: plaidItem.id },
+      data: {
+        backfillStatus: 'complete',
+        backfillDaysTotal: daysComputed,
+        backfillDaysCompleted: daysComputed,
+        backfillCompletedAt: new Date(),
+      },
+    });
+
+    logger.info('Historical backfill completed', { userId, itemId: plaidItem.itemId, startDay, endDay, daysComputed });
+
+    // Payments in the history were held back until the days they cover had reports
+    await applyCardPayments(userId);
+  });
+}
+
+/**
+ * Advance every backfill that isn't finished yet
+ */
+async function processPendingBackfills() {
+  try {
+    const items = await prisma.plaidItem.findMany({
+      where: { backfillStatus: { in: ACTIVE_BACKFILL_STATUSES } },
+      select: { id: true, itemId: true, userId: true },
+    });
+
+    for (const item of items) {
+      try {
+        await runItemBackfill(item.id);
+      } catch (error) {
+        if (error instanceof UserLockedError) {
+          // Picked up again on the next run
+          logger.debug('User locked by another job, deferring backfill', { itemId: item.itemId, heldBy: error.heldBy });
+          continue;
+        }
+        logger.error('Error running historical backfill', { error, itemId: item.itemId, userId: item.userId });
+      }
+    }
+  } catch (error) {
+    logger.error('Error in backfill job', { error });
+  }
+}
+
+export function startBackfillJob() {
+  // Run every 5 minutes
+  scheduleJob('backfill', '*/5 * * * *', processPendingBackfills);
+
+  logger.info('Historical backfill job scheduled', { schedule: 'every 5 minutes' });
+}
+
+// Export for manual triggering if needed
+export { processPendingBackfills };
@@ -4,10 +4,10 @@
  * Runs weekly to clean up devices that have failed notification attempts
  */
 
-import * as cron from 'node-cron';
 import prisma from '../db';
 import logger from '../utils/logger';
 import { sendPushNotification } from '../push';
+import { scheduleJob } from './jobRunner';
 
 /**
  * Test a device token by attempting to send a silent notification
@@ -101,9 +101,7 @@ async function cleanupInvalidDevices() {
 export function startDeviceCleanupJob() {
   // Run weekly on Sunday at 2 AM UTC
   // Cron: '0 2 * * 0' means "at 02:00 on Sunday"
-  cron.schedule('0 2 * * 0', async () => {
-    await cleanupInvalidDevices();
-  });
+  scheduleJob('device-cleanup', '0 2 * * 0', cleanupInvalidDevices);
 
   logger.info('Device cleanup job scheduled', { schedule: 'weekly on Sunday at 02:00 UTC' });
 }
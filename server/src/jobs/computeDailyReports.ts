@@ -4,17 +4,31 @@
  * Runs daily to compute reports for the previous day in each user's timezone
  */
 
-import * as cron from 'node-cron';
-import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
 import prisma from '../db';
 import logger from '../utils/logger';
+import {
+  addLocalDays,
+  localDateOf,
+  localDatesBetween,
+  localDateOfReportKey,
+  localDayBounds,
+  reportDateKey,
+} from '../utils/localDate';
+import { notifyPaidDayAdjustments } from '../utils/paidAdjustments';
+import { getTrackedCreditAccountIds, summarizeSpending, saveReportBreakdown, amountOwed } from '../utils/trackedAccounts';
+import { runForEachUser, scheduleJob } from './jobRunner';
 
-async function computeDailyReportsForUser(userId: string, targetDate: Date) {
+/**
+ * Compute the daily report for a local date (yyyy-MM-dd) in the user's timezone
+ */
+export async function computeDailyReportsForUser(userId: string, localDate: string) {
   try {
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: {
         timezone: true,
+        homeCurrency: true,
+        refundsReduceOwed: true,
       },
     });
 
@@ -25,82 +39,190 @@ async function computeDailyReportsForUser(userId: string, targetDate: Date) {
 
     const timezone = user.timezone;
 
-    // Get account selection
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
-      logger.debug('No credit account selected, skipping report computation', { userId });
+    if (creditAccountIds.length === 0) {
+      logger.debug('No credit account tracked, skipping report computation', { userId });
       return;
     }
 
-    // Get date string for target date in user's timezone
-    const targetDateStr = formatInTimeZone(targetDate, timezone, 'yyyy-MM-dd');
-    
-    // Create start of day in user's timezone, then convert to UTC for database storage
-    const startOfDayLocal = new Date(`${targetDateStr}T00:00:00`);
-    const startOfDayUTC = zonedTimeToUtc(startOfDayLocal, timezone);
-    
-    // End of day
-    const endOfDayLocal = new Date(startOfDayLocal);
-    endOfDayLocal.setDate(endOfDayLocal.getDate() + 1);
-    const endOfDayUTC = zonedTimeToUtc(endOfDayLocal, timezone);
+    const { start, end } = localDayBounds(localDate, timezone);
+    const reportDate = reportDateKey(localDate);
 
     // Get all transactions for this day
-    const allTransactions = await prisma.transaction.findMany({
+    const dayTransactions = await prisma.transaction.findMany({
       where: {
         userId,
-        accountId: accountSelection.creditAccountId,
+        accountId: { in: creditAccountIds },
+        retiredAt: null, // Pending charges that have since posted
+        isPayment: false, // Card payments aren't spending
         date: {
-          gte: startOfDayUTC,
-          lt: endOfDayUTC,
+          gte: start,
+          lt: end,
         },
       },
     });
 
-    // Filter to only transactions that match the target date in user's timezone
-    const dayTransactions = allTransactions.filter(t => {
-      const transactionDateStr = formatInTimeZone(t.date, timezone, 'yyyy-MM-dd');
-      return transactionDateStr === targetDateStr;
-    });
-
-    const totalAmount = dayTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
-    const transactionCount = dayTransactions.length;
+    const summary = await summarizeSpending(dayTransactions, creditAccountIds, user.homeCurrency, start);
+    const { totalAmount, purchasesAmount, refundsAmount, transactionCount, currency } = summary;
+    const owed = amountOwed(summary, user.refundsReduceOwed);
 
-    // Create or update daily report
-    await prisma.dailyReport.upsert({
+    // Create or update daily report along with its per-card breakdown
+    const dailyReport = await prisma.dailyReport.upsert({
       where: {
         userId_date: {
           userId,
-          date: startOfDayUTC,
+          date: reportDate,
         },
       },
       update: {
         totalAmount,
+        purchasesAmount,
+        refundsAmount,
+        amountOwed: owed,
         transactionCount,
+        currency,
         lastComputedAt: new Date(),
       },
       create: {
         userId,
-        date: startOfDayUTC,
+        date: reportDate,
         totalAmount,
+        purchasesAmount,
+        refundsAmount,
+        amountOwed: owed,
         transactionCount,
+        currency,
         lastComputedAt: new Date(),
       },
     });
 
+    await saveReportBreakdown(dailyReport.id, summary);
+
     logger.debug('Computed daily report', { 
       userId, 
-      date: targetDateStr, 
+      date: localDate, 
       totalAmount, 
-      transactionCount 
+      purchasesAmount,
+      refundsAmount,
+      amountOwed: owed,
+      transactionCount,
+      currency,
+      accountCount: summary.accounts.length,
     });
   } catch (error) {
     logger.error('Error computing daily report for user', { error, userId });
   }
 }
 
+/**
+ * Recompute the daily reports covering each of the given dates
+ * Dates falling on the same local day in the user's timezone are only computed once
+ */
+export async function recomputeDailyReportsForDates(userId: string, dates: Date[]) {
+  if (dates.length === 0) {
+    return;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  });
+
+  if (!user || !user.timezone) {
+    logger.debug('User timezone not configured, skipping report recomputation', { userId });
+    return;
+  }
+
+  await recomputeDailyReportsForDays(userId, dates.map(date => localDateOf(date, user.timezone!)));
+}
+
+/**
+ * Recompute the daily reports for each of the given local dates (yyyy-MM-dd), oldest first
+ */
+export async function recomputeDailyReportsForDays(userId: string, days: string[]) {
+  const uniqueDays = Array.from(new Set(days)).sort();
+
+  for (const day of uniqueDays) {
+    await computeDailyReportsForUser(userId, day);
+  }
+
+  logger.debug('Recomputed daily reports', { userId, days: uniqueDays });
+
+  await notifyPaidDayAdjustments(userId);
+}
+
+/**
+ * Recompute every unpaid daily report since the user signed up, up to today
+ * Used when a setting that goes into the amount owed changes; paid days keep the
+ * amounts they were paid at. Returns the number of days recomputed.
+ */
+export async function recomputeUnpaidDailyReports(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, createdAt: true },
+  });
+
+  if (!user || !user.timezone) {
+    logger.debug('User timezone not configured, skipping report recomputation', { userId });
+    return 0;
+  }
+
+  const reports = await prisma.dailyReport.findMany({
+    where: {
+      userId,
+      markedPaidAt: null,
+      date: {
+        gte: reportDateKey(localDateOf(user.createdAt, user.timezone)),
+        lte: reportDateKey(localDateOf(new Date(), user.timezone)),
+      },
+    },
+    select: { date: true },
+  });
+
+  await recomputeDailyReportsForDays(userId, reports.map(report => localDateOfReportKey(report.date)));
+
+  return reports.length;
+}
+
+/**
+ * Compute the daily reports for every local day from startDay to endDay inclusive (yyyy-MM-dd)
+ * Days without transactions get an empty report so history has no gaps.
+ * Returns the number of days computed.
+ */
+export async function recomputeDailyReportsForRange(
+  userId: string,
+  startDay: string,
+  endDay: string,
+  onProgress?: (completed: number, total: number) => Promise<void>
+): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  });
+
+  if (!user || !user.timezone) {
+    logger.debug('User timezone not configured, skipping report recomputation', { userId });
+    return 0;
+  }
+
+  const days = localDatesBetween(startDay, endDay);
+
+  for (let i = 0; i < days.length; i++) {
+    await computeDailyReportsForUser(userId, days[i]);
+
+    if (onProgress && ((i + 1) % 30 === 0 || i + 1 === days.length)) {
+      await onProgress(i + 1, days.length);
+    }
+  }
+
+  logger.debug('Recomputed daily reports for range', { userId, startDay, endDay, days: days.length });
+
+  await notifyPaidDayAdjustments(userId);
+
+  return days.length;
+}
+
 async function computeDailyReportsJob() {
   try {
     logger.info('Running daily report computation job');
@@ -113,31 +235,31 @@ async function computeDailyReportsJob() {
       },
     });
 
-    // Compute reports for yesterday (relative to UTC)
-    // Each user's report will be for their "yesterday" in their timezone
+    // Each user's report is for their "yesterday" in their timezone
     const now = new Date();
-    const yesterdayUTC = new Date(now);
-    yesterdayUTC.setDate(yesterdayUTC.getDate() - 1);
 
     logger.debug('Computing daily reports for previous day', { 
       userCount: users.length,
-      targetDateUTC: yesterdayUTC.toISOString()
+      now: now.toISOString()
     });
 
-    // For each user, compute report for their "yesterday" in their timezone
+    // Users without a timezone are skipped
+    const timezones = new Map<string, string>();
     for (const user of users) {
-      if (!user.timezone) {
-        continue; // Skip users without timezone
+      if (user.timezone) {
+        timezones.set(user.id, user.timezone);
       }
-
-      // Get yesterday in user's timezone
-      const yesterdayInUserTz = formatInTimeZone(yesterdayUTC, user.timezone, 'yyyy-MM-dd');
-      const yesterdayDate = new Date(`${yesterdayInUserTz}T00:00:00`);
-      
-      await computeDailyReportsForUser(user.id, yesterdayDate);
     }
 
-    logger.info('Daily report computation job completed', { userCount: users.length });
+    // For each user, compute report for their "yesterday" in their timezone
+    const result = await runForEachUser('daily-report-computation', Array.from(timezones.keys()), async userId => {
+      const yesterday = addLocalDays(localDateOf(now, timezones.get(userId)!), -1);
+
+      await computeDailyReportsForUser(userId, yesterday);
+      await notifyPaidDayAdjustments(userId);
+    });
+
+    logger.info('Daily report computation job completed', { userCount: users.length, ...result });
   } catch (error) {
     logger.error('Error in daily report computation job', { error });
   }
@@ -146,9 +268,7 @@ async function computeDailyReportsJob() {
 export function startDailyReportComputationJob() {
   // Run daily at midnight UTC (00:00 UTC)
   // Cron: '0 0 * * *' means "at 00:00 on every day"
-  cron.schedule('0 0 * * *', async () => {
-    await computeDailyReportsJob();
-  });
+  scheduleJob('daily-report-computation', '0 0 * * *', computeDailyReportsJob);
 
   logger.info('Daily report computation job scheduled', { schedule: 'daily at 00:00 UTC' });
 }
@@ -0,0 +1,194 @@
+/**
+ * Shared runner for background jobs
+ * Scheduled jobs never overlap themselves: a tick that fires while the previous run is
+ * still going is skipped. Per-user work runs on a bounded worker pool, and a user is only
+ * worked on by one job at a time: scheduled jobs queue behind the user's lock, while
+ * manual triggers fail fast when it's held.
+ * A timeout stops the runner waiting on a user but can't cancel the work itself, so the
+ * user's lock is held until that work actually settles.
+ */
+
+import * as cron from 'node-cron';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { isSchedulerLeader } from './leader';
+
+export class UserLockedError extends Error {
+  constructor(public readonly userId: string, public readonly heldBy: string) {
+    super(`User ${userId} is locked by ${heldBy}`);
+    this.name = 'UserLockedError';
+  }
+}
+
+export class JobTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export interface UserRunOptions {
+  // Users processed in parallel (defaults to JOB_CONCURRENCY)
+  concurrency?: number;
+  // How long to wait on a single user (defaults to JOB_USER_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Take the per-user lock; jobs that only read can opt out so they're never held up
+  lockUsers?: boolean;
+}
+
+export interface UserRunResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  timedOut: number;
+}
+
+interface UserLock {
+  heldBy: string;
+  released: Promise<void>;
+}
+
+const runningJobs = new Set<string>();
+const userLocks = new Map<string, UserLock>();
+
+export function isJobRunning(jobName: string): boolean {
+  return runningJobs.has(jobName);
+}
+
+/**
+ * Name of the job currently working on the user, or null
+ */
+export function getUserLockHolder(userId: string): string | null {
+  return userLocks.get(userId)?.heldBy || null;
+}
+
+/**
+ * Run a task while holding the user's lock
+ * With wait set, queues until the lock is free; otherwise throws UserLockedError
+ * straight away if another job holds it
+ */
+export async function withUserLock<T>(
+  userId: string,
+  jobName: string,
+  task: () => Promise<T>,
+  options: { wait?: boolean } = {}
+): Promise<T> {
+  let lock = userLocks.get(userId);
+  while (lock) {
+    if (!options.wait) {
+      throw new UserLockedError(userId, lock.heldBy);
+    }
+    await lock.released;
+    lock = userLocks.get(userId);
+  }
+
+  let release!: () => void;
+  userLocks.set(userId, {
+    heldBy: jobName,
+    released: new Promise(resolve => {
+      release = resolve;
+    }),
+  });
+
+  try {
+    return await task();
+  } finally {
+    userLocks.delete(userId);
+    release();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new JobTimeoutError(timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run a task for each user on a bounded worker pool
+ * Time spent waiting for a user's lock counts towards the timeout. A failure or
+ * timeout for one user never stops the others.
+ */
+export async function runForEachUser(
+  jobName: string,
+  userIds: string[],
+  task: (userId: string) => Promise<void>,
+  options: UserRunOptions = {}
+): Promise<UserRunResult> {
+  const concurrency = Math.max(1, options.concurrency ?? env.jobConcurrency);
+  const timeoutMs = options.timeoutMs ?? env.jobUserTimeoutMs;
+  const lockUsers = options.lockUsers ?? true;
+
+  const result: UserRunResult = { total: userIds.length, succeeded: 0, failed: 0, timedOut: 0 };
+  const queue = [...userIds];
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const userId = queue.shift()!;
+      // Set on timeout so a run still queued behind the user's lock never starts
+      let abandoned = false;
+      const runTask = async () => {
+        if (!abandoned) {
+          await task(userId);
+        }
+      };
+      const run = lockUsers ? withUserLock(userId, jobName, runTask, { wait: true }) : runTask();
+
+      try {
+        await withTimeout(run, timeoutMs);
+        result.succeeded++;
+      } catch (error) {
+        if (error instanceof JobTimeoutError) {
+          abandoned = true;
+          result.timedOut++;
+          logger.warn('Job timed out for user', { jobName, userId, timeoutMs });
+        } else {
+          result.failed++;
+          logger.error('Job failed for user', { jobName, userId, error });
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, userIds.length) }, worker));
+
+  return result;
+}
+
+/**
+ * Run a job unless a previous run of it is still in progress
+ * Returns false when the run was skipped
+ */
+export async function runJob(jobName: string, run: () => Promise<unknown>): Promise<boolean> {
+  if (runningJobs.has(jobName)) {
+    logger.warn('Previous run still in progress, skipping', { jobName });
+    return false;
+  }
+
+  runningJobs.add(jobName);
+  try {
+    await run();
+  } catch (error) {
+    logger.error('Job run failed', { jobName, error });
+  } finally {
+    runningJobs.delete(jobName);
+  }
+
+  return true;
+}
+
+/**
+ * Schedule a job on a cron expression with skip-if-still-running semantics
+ * Ticks only run on the instance holding the scheduler lease
+ */
+export function scheduleJob(jobName: string, schedule: string, run: () => Promise<unknown>): void {
+  cron.schedule(schedule, async () => {
+    if (!isSchedulerLeader()) {
+      return;
+    }
+    await runJob(jobName, run);
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Scheduler leader election
+ * Every worker instance registers the cron jobs, but only the instance holding the
+ * scheduler lease runs them. The leader renews the lease on a heartbeat; if it stops
+ * renewing (crash, network partition), another instance takes over once the lease expires.
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import logger from '../utils/logger';
+
+const LEASE_NAME = 'scheduler';
+const LEASE_TTL_MS = 30 * 1000;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+export const instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+
+// Local view of the lease; leadership lapses on its own if heartbeats stop succeeding
+let leaseExpiresAt: Date | null = null;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+export function isSchedulerLeader(): boolean {
+  return leaseExpiresAt !== null && leaseExpiresAt > new Date();
+}
+
+/**
+ * Acquire or renew the scheduler lease
+ * Succeeds if this instance already holds it or the current holder's lease has expired
+ */
+export async function tryAcquireLease(now = new Date()): Promise<boolean> {
+  const expiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+
+  const renewed = await prisma.schedulerLease.updateMany({
+    where: {
+      name: LEASE_NAME,
+      OR: [
+        { holderId: instanceId },
+        { expiresAt: { lt: now } },
+      ],
+    },
+    data: { holderId: instanceId, renewedAt: now, expiresAt },
+  });
+
+  if (renewed.count > 0) {
+    return true;
+  }
+
+  try {
+    await prisma.schedulerLease.create({
+      data: { name: LEASE_NAME, holderId: instanceId, acquiredAt: now, renewedAt: now, expiresAt },
+    });
+    return true;
+  } catch (error) {
+    // Another instance holds an unexpired lease
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function heartbeat() {
+  const wasLeader = isSchedulerLeader();
+  const now = new Date();
+
+  try {
+    if (await tryAcquireLease(now)) {
+      leaseExpiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+      if (!wasLeader) {
+        logger.info('Acquired scheduler lease, this instance now runs scheduled jobs', { instanceId });
+      }
+    } else {
+      leaseExpiresAt = null;
+      if (wasLeader) {
+        logger.warn('Lost scheduler lease to another instance', { instanceId });
+      }
+    }
+  } catch (error) {
+    // Keep leadership until the local lease runs out; another instance can't take over before then either
+    logger.error('Scheduler lease heartbeat failed', { error, instanceId });
+  }
+}
+
+/**
+ * Start competing for the scheduler lease
+ */
+export async function startLeaderElection(): Promise<void> {
+  await heartbeat();
+  heartbeatTimer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+
+  logger.info('Scheduler leader election started', {
+    instanceId,
+    leader: isSchedulerLeader(),
+    leaseTtlMs: LEASE_TTL_MS,
+  });
+}
+
+/**
+ * Stop heartbeating and hand the lease back so another instance can take over right away
+ */
+export async function stopLeaderElection(): Promise<void> {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+
+  if (leaseExpiresAt) {
+    leaseExpiresAt = null;
+    await prisma.schedulerLease.deleteMany({
+      where: { name: LEASE_NAME, holderId: instanceId },
+    });
+    logger.info('Released scheduler lease', { instanceId });
+  }
+}
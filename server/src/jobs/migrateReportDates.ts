@@ -0,0 +1,235 @@
+/**
+ * Daily report date key migration
+ * Older code keyed DailyReport rows either at midnight in the user's timezone or at
+ * midnight in the server's timezone, and stored Plaid transaction dates at midnight
+ * server time. This rewrites report keys to UTC midnight of the local date, merging
+ * rows that turn out to be the same day, and moves Plaid calendar dates to local noon.
+ * Rows already in the new form are left alone, so the migration can be re-run.
+ */
+
+import { DailyReport } from '@prisma/client';
+import { formatInTimeZone } from 'date-fns-tz';
+import prisma from '../db';
+import logger from '../utils/logger';
+import { calendarDateToInstant, DEFAULT_TIMEZONE, localDateOfReportKey, reportDateKey } from '../utils/localDate';
+import { recomputeDailyReportsForDates } from './computeDailyReports';
+
+export interface ReportDateMigrationOptions {
+  // Count the rows that would change without writing anything
+  dryRun?: boolean;
+}
+
+export interface ReportDateMigrationResult {
+  scannedReports: number;
+  rekeyedReports: number;
+  // Reports folded into another report for the same local date
+  mergedReports: number;
+  // Reports whose key matches none of the known forms
+  unrecognizedReports: number;
+  rewrittenTransactions: number;
+}
+
+function isServerMidnight(date: Date): boolean {
+  return date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0;
+}
+
+/**
+ * The local date an existing report key stands for, or null if it isn't recognised
+ */
+function legacyReportLocalDate(key: Date, timezone: string): string | null {
+  if (key.getTime() === reportDateKey(localDateOfReportKey(key)).getTime()) {
+    return localDateOfReportKey(key);
+  }
+  if (formatInTimeZone(key, timezone, 'HH:mm:ss.SSS') === '00:00:00.000') {
+    return formatInTimeZone(key, timezone, 'yyyy-MM-dd');
+  }
+  if (isServerMidnight(key)) {
+    return key.toLocaleDateString('en-CA');
+  }
+  return null;
+}
+
+function earliest(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) {
+    return a || b;
+  }
+  return a < b ? a : b;
+}
+
+/**
+ * Fold a report into the one already stored for the same local date
+ * The more recently computed totals win; paid and notified times keep the earliest
+ */
+async function mergeReports(source: DailyReport, target: DailyReport) {
+  const sourceIsNewer = source.lastComputedAt > target.lastComputedAt;
+  const targetPayments = await prisma.dailyReportPayment.findMany({
+    where: { dailyReportId: target.id, transactionId: { not: null } },
+    select: { transactionId: true },
+  });
+
+  await prisma.$transaction([
+    prisma.dailyReportPayment.updateMany({
+      where: {
+        dailyReportId: source.id,
+        OR: [
+          { transactionId: null },
+          { transactionId: { notIn: targetPayments.map(payment => payment.transactionId!) } },
+        ],
+      },
+      data: { dailyReportId: target.id },
+    }),
+    ...(sourceIsNewer
+      ? [
+          prisma.dailyReportAccount.deleteMany({ where: { dailyReportId: target.id } }),
+          prisma.dailyReportCurrency.deleteMany({ where: { dailyReportId: target.id } }),
+          prisma.dailyReportAccount.updateMany({
+            where: { dailyReportId: source.id },
+            data: { dailyReportId: target.id },
+          }),
+          prisma.dailyReportCurrency.updateMany({
+            where: { dailyReportId: source.id },
+            data: { dailyReportId: target.id },
+          }),
+        ]
+      : []),
+    prisma.dailyReport.delete({ where: { id: source.id } }),
+    prisma.dailyReport.update({
+      where: { id: target.id },
+      data: {
+        ...(sourceIsNewer
+          ? {
+              totalAmount: source.totalAmount,
+              purchasesAmount: source.purchasesAmount,
+              refundsAmount: source.refundsAmount,
+              amountOwed: source.amountOwed,
+              transactionCount: source.transactionCount,
+              currency: source.currency,
+              lastComputedAt: source.lastComputedAt,
+            }
+          : {}),
+        markedPaidAt: earliest(source.markedPaidAt, target.markedPaidAt),
+        pushSentAt: earliest(source.pushSentAt, target.pushSentAt),
+      },
+    }),
+  ]);
+}
+
+async function migrateUserReports(
+  userId: string,
+  timezone: string,
+  dryRun: boolean,
+  result: ReportDateMigrationResult
+) {
+  const reports = await prisma.dailyReport.findMany({
+    where: { userId },
+    orderBy: { date: 'asc' },
+  });
+  const byKey = new Map(reports.map(report => [report.date.getTime(), report]));
+
+  for (const report of reports) {
+    result.scannedReports++;
+
+    const localDate = legacyReportLocalDate(report.date, timezone);
+    if (!localDate) {
+      result.unrecognizedReports++;
+      logger.warn('Daily report key not recognised, leaving it in place', { userId, reportId: report.id, date: report.date });
+      continue;
+    }
+
+    const key = reportDateKey(localDate);
+    if (key.getTime() === report.date.getTime()) {
+      continue;
+    }
+
+    const existing = byKey.get(key.getTime());
+    byKey.delete(report.date.getTime());
+
+    if (existing) {
+      result.mergedReports++;
+      if (!dryRun) {
+        await mergeReports(report, existing);
+      }
+      continue;
+    }
+
+    result.rekeyedReports++;
+    byKey.set(key.getTime(), { ...report, date: key });
+    if (!dryRun) {
+      await prisma.dailyReport.update({
+        where: { id: report.id },
+        data: { date: key },
+      });
+    }
+  }
+}
+
+async function migrateUserTransactions(
+  userId: string,
+  timezone: string,
+  dryRun: boolean,
+  result: ReportDateMigrationResult
+) {
+  const transactions = await prisma.transaction.findMany({
+    where: { userId },
+    select: { id: true, date: true, authorizedDate: true },
+  });
+
+  const affectedDates: Date[] = [];
+  for (const transaction of transactions) {
+    if (!isServerMidnight(transaction.date)) {
+      continue;
+    }
+
+    const date = calendarDateToInstant(transaction.date.toLocaleDateString('en-CA'), timezone);
+    const authorizedDate = transaction.authorizedDate && isServerMidnight(transaction.authorizedDate)
+      ? calendarDateToInstant(transaction.authorizedDate.toLocaleDateString('en-CA'), timezone)
+      : transaction.authorizedDate;
+
+    if (date.getTime() === transaction.date.getTime()) {
+      continue;
+    }
+
+    result.rewrittenTransactions++;
+    affectedDates.push(transaction.date, date);
+    if (!dryRun) {
+      await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: { date, authorizedDate },
+      });
+    }
+  }
+
+  // Transactions that moved may now fall on a different local day
+  if (!dryRun && affectedDates.length > 0) {
+    await recomputeDailyReportsForDates(userId, affectedDates);
+  }
+}
+
+/**
+ * Rewrite every user's report keys and Plaid transaction dates to the current form
+ */
+export async function migrateReportDates(options: ReportDateMigrationOptions = {}): Promise<ReportDateMigrationResult> {
+  const dryRun = options.dryRun ?? false;
+  const result: ReportDateMigrationResult = {
+    scannedReports: 0,
+    rekeyedReports: 0,
+    mergedReports: 0,
+    unrecognizedReports: 0,
+    rewrittenTransactions: 0,
+  };
+
+  const users = await prisma.user.findMany({
+    select: { id: true, timezone: true },
+  });
+
+  for (const user of users) {
+    const timezone = user.timezone || DEFAULT_TIMEZONE;
+    // Reports first, so recomputing moved transactions lands on the new keys
+    await migrateUserReports(user.id, timezone, dryRun, result);
+    await migrateUserTransactions(user.id, timezone, dryRun, result);
+  }
+
+  logger.info('Daily report date migration completed', { ...result, dryRun });
+
+  return result;
+}
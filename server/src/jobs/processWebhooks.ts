@@ -0,0 +1,191 @@
+/**
+ * Webhook processing job
+ * Verified Plaid webhooks are stored in the WebhookEvent inbox before they are handled,
+ * so a failure while processing leaves the event queued for retry instead of losing it
+ */
+
+import crypto from 'crypto';
+import { WebhookEvent } from '@prisma/client';
+import prisma from '../db';
+import logger from '../utils/logger';
+import { handlePlaidWebhook, PlaidWebhook } from '../utils/plaidWebhook';
+import { scheduleJob } from './jobRunner';
+
+const MAX_WEBHOOK_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+// Events left in "processing" this long are assumed to belong to a crashed run
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+// Identical bodies received this close together are redeliveries of the same event
+const REDELIVERY_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Store a verified webhook in the inbox
+ * Plaid sends byte-identical bodies for routine events (another SYNC_UPDATES_AVAILABLE
+ * for the same item), so a body only counts as a duplicate while an identical event is
+ * still queued or was received within the redelivery window. Returns that event with
+ * duplicate set.
+ */
+export async function recordWebhookEvent(
+  rawBody: string,
+  webhook: PlaidWebhook
+): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  const dedupeKey = crypto.createHash('sha256').update(rawBody).digest('hex');
+
+  const existing = await prisma.webhookEvent.findFirst({
+    where: {
+      dedupeKey,
+      OR: [
+        { status: { in: ['pending', 'processing'] } },
+        { receivedAt: { gte: new Date(Date.now() - REDELIVERY_WINDOW_MS) } },
+      ],
+    },
+    orderBy: { receivedAt: 'desc' },
+  });
+
+  if (existing) {
+    return { event: existing, duplicate: true };
+  }
+
+  const event = await prisma.webhookEvent.create({
+    data: {
+      dedupeKey,
+      itemId: webhook.item_id || null,
+      webhookType: webhook.webhook_type || 'UNKNOWN',
+      webhookCode: webhook.webhook_code || 'UNKNOWN',
+      payload: rawBody,
+    },
+  });
+
+  return { event, duplicate: false };
+}
+
+/**
+ * Handle a stored webhook event and record the outcome
+ * The event is claimed first so overlapping worker runs never handle it twice
+ */
+export async function processWebhookEvent(event: WebhookEvent): Promise<WebhookEvent | null> {
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: event.id,
+      status: event.status,
+      updatedAt: event.updatedAt,
+    },
+    data: { status: 'processing' },
+  });
+
+  if (claimed.count === 0) {
+    logger.debug('Webhook event already claimed, skipping', { webhookEventId: event.id });
+    return null;
+  }
+
+  const attempts = event.attempts + 1;
+
+  try {
+    await handlePlaidWebhook(JSON.parse(event.payload));
+
+    return prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: 'processed',
+        attempts,
+        lastError: null,
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const exhausted = attempts >= MAX_WEBHOOK_ATTEMPTS;
+    const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+    logger.error('Error processing Plaid webhook event', {
+      error,
+      webhookEventId: event.id,
+      webhookType: event.webhookType,
+      webhookCode: event.webhookCode,
+      itemId: event.itemId,
+      attempts,
+      exhausted,
+    });
+
+    return prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastError: (error as Error).message || 'Unknown error',
+        nextAttemptAt: new Date(Date.now() + delay),
+      },
+    });
+  }
+}
+
+/**
+ * Queue an event to be handled again from scratch, whatever its current status
+ */
+export async function replayWebhookEvent(id: string): Promise<WebhookEvent | null> {
+  const event = await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date(),
+      processedAt: null,
+    },
+  });
+
+  logger.info('Replaying Plaid webhook event', {
+    webhookEventId: id,
+    webhookType: event.webhookType,
+    webhookCode: event.webhookCode,
+    itemId: event.itemId,
+  });
+
+  return processWebhookEvent(event);
+}
+
+/**
+ * Process queued events that are due, along with any abandoned mid-processing
+ */
+async function processPendingWebhooks() {
+  try {
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        OR: [
+          { status: 'pending', nextAttemptAt: { lte: new Date() } },
+          { status: 'processing', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      orderBy: { receivedAt: 'asc' },
+      take: 100,
+    });
+
+    if (events.length === 0) {
+      return;
+    }
+
+    logger.info('Processing queued Plaid webhook events', { count: events.length });
+
+    let processedCount = 0;
+    for (const event of events) {
+      const result = await processWebhookEvent(event);
+      if (result?.status === 'processed') {
+        processedCount++;
+      }
+    }
+
+    logger.info('Webhook processing run completed', { attempted: events.length, processedCount });
+  } catch (error) {
+    logger.error('Error in webhook processing job', { error });
+  }
+}
+
+export function startWebhookProcessingJob() {
+  // Run every minute
+  scheduleJob('webhook-processing', '* * * * *', processPendingWebhooks);
+
+  logger.info('Webhook processing job scheduled', { schedule: 'every minute' });
+}
+
+// Export for manual triggering if needed
+export { processPendingWebhooks };
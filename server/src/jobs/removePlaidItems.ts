@@ -0,0 +1,165 @@
+/**
+ * Plaid item removal job
+ * Revokes access tokens with Plaid's /item/remove when items are disconnected
+ * Failed removals stay queued and are retried with backoff until Plaid confirms
+ */
+
+import { PlaidApi, PlaidEnvironments, Configuration } from 'plaid';
+import { PlaidItem, PlaidItemRemoval } from '@prisma/client';
+import prisma, { decryptPlaidToken } from '../db';
+import logger from '../utils/logger';
+import { extractPlaidError, logPlaidError } from '../utils/plaidErrors';
+import { scheduleJob } from './jobRunner';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments] || PlaidEnvironments.sandbox,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
+      'PLAID-SECRET': process.env.PLAID_SECRET!,
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
+
+const MAX_REMOVAL_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Errors meaning the token is already unusable on Plaid's side, so there is nothing left to revoke
+const ALREADY_REMOVED_CODES = ['ITEM_NOT_FOUND', 'INVALID_ACCESS_TOKEN', 'ACCESS_TOKEN_NOT_FOUND'];
+
+/**
+ * Call /item/remove for a queued removal and record the outcome
+ */
+export async function attemptItemRemoval(removal: PlaidItemRemoval): Promise<PlaidItemRemoval> {
+  const attempts = removal.attempts + 1;
+  const now = new Date();
+
+  try {
+    // Test mode items hold mock tokens that Plaid doesn't know about
+    if (process.env.TEST_MODE !== 'true') {
+      await plaidClient.itemRemove({
+        access_token: decryptPlaidToken(removal.accessTokenEncrypted),
+      });
+    }
+
+    logger.info('Plaid item removed', { itemId: removal.itemId, userId: removal.userId, attempts });
+
+    return prisma.plaidItemRemoval.update({
+      where: { id: removal.id },
+      data: {
+        status: 'removed',
+        attempts,
+        lastError: null,
+        lastAttemptAt: now,
+        removedAt: now,
+        accessTokenEncrypted: '', // The token is revoked, no reason to keep it
+      },
+    });
+  } catch (error) {
+    const plaidError = extractPlaidError(error);
+
+    if (plaidError && ALREADY_REMOVED_CODES.includes(plaidError.error_code)) {
+      logger.info('Plaid item already removed on Plaid side', {
+        itemId: removal.itemId,
+        userId: removal.userId,
+        error_code: plaidError.error_code,
+      });
+
+      return prisma.plaidItemRemoval.update({
+        where: { id: removal.id },
+        data: {
+          status: 'removed',
+          attempts,
+          lastError: plaidError.error_code,
+          lastAttemptAt: now,
+          removedAt: now,
+          accessTokenEncrypted: '',
+        },
+      });
+    }
+
+    logPlaidError(error, { userId: removal.userId, itemId: removal.itemId, operation: 'itemRemove' });
+
+    const exhausted = attempts >= MAX_REMOVAL_ATTEMPTS;
+    const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+    if (exhausted) {
+      logger.error('Giving up on Plaid item removal', { itemId: removal.itemId, userId: removal.userId, attempts });
+    }
+
+    return prisma.plaidItemRemoval.update({
+      where: { id: removal.id },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastError: plaidError?.error_code || (error as Error).message || 'Unknown error',
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + delay),
+      },
+    });
+  }
+}
+
+/**
+ * Queue a Plaid item for removal and make a first attempt right away
+ * The queued record keeps its own copy of the encrypted token, so the local
+ * PlaidItem can be deleted whatever the outcome
+ */
+export async function revokePlaidItem(plaidItem: PlaidItem): Promise<PlaidItemRemoval> {
+  const removal = await prisma.plaidItemRemoval.create({
+    data: {
+      userId: plaidItem.userId,
+      itemId: plaidItem.itemId,
+      accessTokenEncrypted: plaidItem.accessTokenEncrypted,
+    },
+  });
+
+  return attemptItemRemoval(removal);
+}
+
+/**
+ * Retry queued removals that are due
+ */
+async function retryPendingRemovals() {
+  try {
+    const pending = await prisma.plaidItemRemoval.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    logger.info('Retrying pending Plaid item removals', { count: pending.length });
+
+    let removedCount = 0;
+    for (const removal of pending) {
+      const result = await attemptItemRemoval(removal);
+      if (result.status === 'removed') {
+        removedCount++;
+      }
+    }
+
+    logger.info('Plaid item removal retry completed', { attempted: pending.length, removedCount });
+  } catch (error) {
+    logger.error('Error in Plaid item removal job', { error });
+  }
+}
+
+export function startItemRemovalJob() {
+  // Run every 30 minutes
+  scheduleJob('item-removal', '*/30 * * * *', retryPendingRemovals);
+
+  logger.info('Plaid item removal job scheduled', { schedule: 'every 30 minutes' });
+}
+
+// Export for manual triggering if needed
+export { retryPendingRemovals };
@@ -0,0 +1,157 @@
+/**
+ * Plaid access token key rotation
+ * Re-encrypts stored access tokens with the active encryption key in batches. Tokens
+ * stay readable throughout: old keys remain configured until the rotation has finished,
+ * and each row is only overwritten if it hasn't changed since it was read.
+ */
+
+import prisma, { decryptPlaidToken, encryptPlaidToken, getActiveEncryptionKeyId, needsReencryption } from '../db';
+import logger from '../utils/logger';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface RotationOptions {
+  batchSize?: number;
+  // Count the rows that would change without writing anything
+  dryRun?: boolean;
+}
+
+export interface RotationResult {
+  activeKeyId: string;
+  scanned: number;
+  reencrypted: number;
+  // Already encrypted with the active key, or changed by someone else mid-rotation
+  skipped: number;
+  failed: number;
+}
+
+interface EncryptedRow {
+  id: string;
+  accessTokenEncrypted: string;
+}
+
+async function rotateTable(
+  table: string,
+  loadBatch: (cursor: string | undefined, take: number) => Promise<EncryptedRow[]>,
+  update: (row: EncryptedRow, reencrypted: string) => Promise<number>,
+  { batchSize, dryRun }: Required<RotationOptions>,
+  result: RotationResult
+): Promise<void> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await loadBatch(cursor, batchSize);
+    if (rows.length === 0) {
+      break;
+    }
+    cursor = rows[rows.length - 1].id;
+
+    let batchReencrypted = 0;
+    for (const row of rows) {
+      result.scanned++;
+
+      if (!needsReencryption(row.accessTokenEncrypted)) {
+        result.skipped++;
+        continue;
+      }
+
+      if (dryRun) {
+        result.reencrypted++;
+        batchReencrypted++;
+        continue;
+      }
+
+      try {
+        // Conditional on the old ciphertext so a token replaced concurrently (e.g. by a
+        // relink) is never overwritten with a stale value
+        const reencrypted = encryptPlaidToken(decryptPlaidToken(row.accessTokenEncrypted));
+        if (await update(row, reencrypted) > 0) {
+          result.reencrypted++;
+          batchReencrypted++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error('Failed to re-encrypt Plaid access token', {
+          table,
+          id: row.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    logger.info('Encryption key rotation progress', {
+      table,
+      batchSize: rows.length,
+      batchReencrypted,
+      scanned: result.scanned,
+      reencrypted: result.reencrypted,
+      skipped: result.skipped,
+      failed: result.failed,
+      dryRun,
+    });
+  }
+}
+
+/**
+ * Re-encrypt every stored Plaid access token that isn't already using the active key
+ * Covers linked items and removals still waiting for Plaid to confirm
+ */
+export async function reencryptPlaidTokens(options: RotationOptions = {}): Promise<RotationResult> {
+  const resolved: Required<RotationOptions> = {
+    batchSize: options.batchSize || DEFAULT_BATCH_SIZE,
+    dryRun: options.dryRun || false,
+  };
+  const result: RotationResult = {
+    activeKeyId: getActiveEncryptionKeyId(),
+    scanned: 0,
+    reencrypted: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  logger.info('Starting encryption key rotation', {
+    activeKeyId: result.activeKeyId,
+    batchSize: resolved.batchSize,
+    dryRun: resolved.dryRun,
+  });
+
+  await rotateTable(
+    'PlaidItem',
+    (cursor, take) => prisma.plaidItem.findMany({
+      select: { id: true, accessTokenEncrypted: true },
+      orderBy: { id: 'asc' },
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    async (row, reencrypted) => (await prisma.plaidItem.updateMany({
+      where: { id: row.id, accessTokenEncrypted: row.accessTokenEncrypted },
+      data: { accessTokenEncrypted: reencrypted },
+    })).count,
+    resolved,
+    result
+  );
+
+  await rotateTable(
+    'PlaidItemRemoval',
+    (cursor, take) => prisma.plaidItemRemoval.findMany({
+      // Tokens are cleared once Plaid confirms the removal
+      where: { accessTokenEncrypted: { not: '' } },
+      select: { id: true, accessTokenEncrypted: true },
+      orderBy: { id: 'asc' },
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    async (row, reencrypted) => (await prisma.plaidItemRemoval.updateMany({
+      where: { id: row.id, accessTokenEncrypted: row.accessTokenEncrypted },
+      data: { accessTokenEncrypted: reencrypted },
+    })).count,
+    resolved,
+    result
+  );
+
+  logger.info('Encryption key rotation completed', { ...result, dryRun: resolved.dryRun });
+
+  return result;
+}
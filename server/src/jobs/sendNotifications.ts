@@ -1,8 +1,77 @@
-import * as cron from 'node-cron';
-import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import { formatInTimeZone } from 'date-fns-tz';
 import prisma from '../db';
-import { sendDailyNotification } from '../push';
+import { sendDailyNotification, sendPaymentReminderNotification } from '../push';
 import logger from '../utils/logger';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { daysUntilDue, formatCalendarDate, isStatementPaid } from '../utils/liabilities';
+import { localDateOf, reportDateKey } from '../utils/localDate';
+import { getUnpaidBalance } from '../utils/paymentStatus';
+import { getTrackedCreditAccountIds } from '../utils/trackedAccounts';
+import { computeDailyReportsForUser } from './computeDailyReports';
+import { runForEachUser, scheduleJob } from './jobRunner';
+
+/**
+ * Remind the user of tracked cards whose statement balance is due within their reminder window
+ * Each due date is reminded about once; cards already paid or with nothing owed are skipped
+ */
+async function sendPaymentRemindersForUser(userId: string, reminderDays: number, today: string) {
+  try {
+    const accountIds = await getTrackedCreditAccountIds(userId);
+    if (accountIds.length === 0) {
+      return;
+    }
+
+    const liabilities = await prisma.creditLiability.findMany({
+      where: {
+        userId,
+        accountId: { in: accountIds },
+        nextPaymentDueDate: { not: null },
+      },
+    });
+
+    for (const liability of liabilities) {
+      const dueDate = liability.nextPaymentDueDate!;
+      const days = daysUntilDue(dueDate, today);
+      const statementBalance = Number(liability.lastStatementBalance ?? 0);
+
+      if (days < 0 || days > reminderDays || statementBalance <= 0) {
+        continue;
+      }
+
+      if (liability.reminderSentForDueDate?.getTime() === dueDate.getTime() || isStatementPaid(liability)) {
+        continue;
+      }
+
+      const account = await prisma.account.findUnique({
+        where: { accountId: liability.accountId },
+        select: { name: true, mask: true },
+      });
+      const cardName = account
+        ? `${account.name}${account.mask ? ` (${account.mask})` : ''}`
+        : 'credit card';
+
+      const success = await sendPaymentReminderNotification(userId, {
+        accountId: liability.accountId,
+        cardName,
+        statementBalance,
+        minimumPayment: liability.minimumPaymentAmount !== null ? Number(liability.minimumPaymentAmount) : null,
+        currency: liability.isoCurrencyCode || DEFAULT_CURRENCY,
+        dueDate: formatCalendarDate(dueDate)!,
+        daysUntilDue: days,
+      });
+
+      if (success) {
+        await prisma.creditLiability.update({
+          where: { id: liability.id },
+          data: { reminderSentForDueDate: dueDate },
+        });
+        logger.info('Sent payment reminder to user', { userId, accountId: liability.accountId, daysUntilDue: days });
+      }
+    }
+  } catch (error) {
+    logger.error('Error sending payment reminders for user', { error, userId });
+  }
+}
 
 async function sendNotificationsForUser(userId: string) {
   try {
@@ -11,6 +80,7 @@ async function sendNotificationsForUser(userId: string) {
       select: {
         timezone: true,
         notificationTime: true,
+        paymentReminderDays: true,
       },
     });
 
@@ -26,24 +96,27 @@ async function sendNotificationsForUser(userId: string) {
     const userTime = formatInTimeZone(now, timezone, 'HH:mm');
     const [currentHours, currentMinutes] = userTime.split(':').map(Number);
 
+    // Get today's date string in user's timezone
+    const todayInTimezone = localDateOf(now, timezone);
+
     // Check if it's the notification time (within 1 minute window)
     if (currentHours !== hours || Math.abs(currentMinutes - minutes) > 1) {
       return; // Not the right time
     }
 
-    // Get today's date string in user's timezone
-    const todayInTimezone = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
-    
-    // Create start of day in user's timezone, then convert to UTC for database storage
-    const startOfDayLocal = new Date(`${todayInTimezone}T00:00:00`);
-    const startOfDayUTC = zonedTimeToUtc(startOfDayLocal, timezone);
+    // Payment reminders go out at the same time as the daily summary, independently of it
+    if (user.paymentReminderDays !== null) {
+      await sendPaymentRemindersForUser(userId, user.paymentReminderDays, todayInTimezone);
+    }
+
+    const reportDate = reportDateKey(todayInTimezone);
     
     // Check if we've already sent a notification for today
     const todayReport = await prisma.dailyReport.findUnique({
       where: {
         userId_date: {
           userId,
-          date: startOfDayUTC,
+          date: reportDate,
         },
       },
     });
@@ -59,59 +132,32 @@ async function sendNotificationsForUser(userId: string) {
       where: {
         userId_date: {
           userId,
-          date: startOfDayUTC,
+          date: reportDate,
         },
       },
+      include: { currencies: true },
     });
 
     // Fallback: compute report if it doesn't exist
     if (!dailyReport) {
       logger.warn('Daily report not found, computing on the fly', { userId, date: todayInTimezone });
-      
-      // Get account selection
-      const accountSelection = await prisma.accountSelection.findUnique({
-        where: { userId },
-      });
 
-      if (!accountSelection || !accountSelection.creditAccountId) {
-        return; // No account selected
-      }
+      // Same computation as the daily job, across all tracked cards
+      await computeDailyReportsForUser(userId, todayInTimezone);
 
-      // Calculate today's total
-      const endOfDayLocal = new Date(startOfDayLocal);
-      endOfDayLocal.setDate(endOfDayLocal.getDate() + 1);
-      const endOfDayUTC = zonedTimeToUtc(endOfDayLocal, timezone);
-
-      const allTransactions = await prisma.transaction.findMany({
+      dailyReport = await prisma.dailyReport.findUnique({
         where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-          date: {
-            gte: startOfDayUTC,
-            lt: endOfDayUTC,
+          userId_date: {
+            userId,
+            date: reportDate,
           },
         },
+        include: { currencies: true },
       });
 
-      // Filter to only transactions that are "today" in user's timezone
-      const todayTransactions = allTransactions.filter(t => {
-        const transactionDateStr = formatInTimeZone(t.date, timezone, 'yyyy-MM-dd');
-        return transactionDateStr === todayInTimezone;
-      });
-
-      const totalAmount = todayTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
-      const transactionCount = todayTransactions.length;
-
-      // Create daily report
-      dailyReport = await prisma.dailyReport.create({
-        data: {
-          userId,
-          date: startOfDayUTC,
-          totalAmount,
-          transactionCount,
-          lastComputedAt: new Date(),
-        },
-      });
+      if (!dailyReport) {
+        return; // No credit account tracked
+      }
     }
 
     const totalAmount = Number(dailyReport.totalAmount);
@@ -124,7 +170,26 @@ async function sendNotificationsForUser(userId: string) {
       return;
     }
 
-    const success = await sendDailyNotification(userId, totalAmount, transactionCount);
+    // Amounts without an exchange rate are listed separately in their own currency
+    const unconvertedAmounts = dailyReport.currencies
+      .filter(entry => !entry.converted)
+      .map(entry => ({ currency: entry.currency, totalAmount: Number(entry.totalAmount) }));
+
+    // Whatever is still unpaid from earlier days is added to the summary
+    const carriedOver = await getUnpaidBalance(userId, todayInTimezone, timezone);
+
+    const success = await sendDailyNotification(
+      userId,
+      {
+        purchasesAmount: Number(dailyReport.purchasesAmount),
+        refundsAmount: Number(dailyReport.refundsAmount),
+        amountOwed: Number(dailyReport.amountOwed),
+        transactionCount,
+      },
+      dailyReport.currency,
+      unconvertedAmounts,
+      carriedOver
+    );
 
     if (success) {
       // Update report with push sent time
@@ -132,7 +197,7 @@ async function sendNotificationsForUser(userId: string) {
         where: { id: dailyReport.id },
         data: { pushSentAt: new Date() },
       });
-      logger.info('Sent daily notification to user', { userId, totalAmount, transactionCount });
+      logger.info('Sent daily notification to user', { userId, totalAmount, transactionCount, carriedOver, currency: dailyReport.currency });
     }
   } catch (error) {
     logger.error('Error sending notification for user', { error, userId });
@@ -141,18 +206,20 @@ async function sendNotificationsForUser(userId: string) {
 
 export function startNotificationScheduler() {
   // Run every minute
-  cron.schedule('* * * * *', async () => {
+  scheduleJob('notifications', '* * * * *', async () => {
     const users = await prisma.user.findMany({
       select: { id: true },
     });
 
-    for (const user of users) {
-      await sendNotificationsForUser(user.id);
-    }
+    // Not held up by user locks: a sync running at the user's notification time
+    // would otherwise make the notification miss its one-minute window
+    await runForEachUser('notifications', users.map(user => user.id), sendNotificationsForUser, {
+      lockUsers: false,
+    });
   });
 
   logger.info('Notification scheduler started', { schedule: 'every minute' });
 }
 
 // Export for test endpoints
-export { sendNotificationsForUser };
+export { sendNotificationsForUser, sendPaymentRemindersForUser };
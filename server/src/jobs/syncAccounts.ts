@@ -0,0 +1,177 @@
+/**
+ * Account cache refresh job
+ * Keeps the local Account table in sync with Plaid so routes and sync jobs can
+ * resolve an account_id to its PlaidItem without calling accountsGet
+ */
+
+import { PlaidApi, PlaidEnvironments, Configuration, AccountBase } from 'plaid';
+import { PlaidItem } from '@prisma/client';
+import prisma, { decryptPlaidToken } from '../db';
+import logger from '../utils/logger';
+import { isTokenExpiredError, logPlaidError } from '../utils/plaidErrors';
+import { runForEachUser, scheduleJob } from './jobRunner';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments] || PlaidEnvironments.sandbox,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
+      'PLAID-SECRET': process.env.PLAID_SECRET!,
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
+
+/**
+ * Store the given Plaid accounts for an item
+ * Accounts the item no longer reports are removed from the cache
+ */
+export async function cacheItemAccounts(plaidItem: PlaidItem, accounts: AccountBase[]): Promise<void> {
+  const now = new Date();
+
+  await prisma.$transaction([
+    ...accounts.map(account => {
+      const fields = {
+        userId: plaidItem.userId,
+        plaidItemId: plaidItem.id,
+        name: account.name,
+        officialName: account.official_name,
+        mask: account.mask,
+        type: account.type,
+        subtype: account.subtype,
+        creditLimit: account.balances?.limit ?? null,
+        isoCurrencyCode: account.balances?.iso_currency_code ?? null,
+        lastRefreshedAt: now,
+      };
+
+      return prisma.account.upsert({
+        where: { accountId: account.account_id },
+        update: fields,
+        create: { ...fields, accountId: account.account_id },
+      });
+    }),
+    prisma.account.deleteMany({
+      where: {
+        plaidItemId: plaidItem.id,
+        accountId: { notIn: accounts.map(account => account.account_id) },
+      },
+    }),
+  ]);
+}
+
+/**
+ * Fetch accounts for a Plaid item and refresh the local cache
+ * Returns the raw Plaid accounts so callers can also read live balances
+ */
+export async function refreshItemAccounts(plaidItem: PlaidItem): Promise<AccountBase[]> {
+  const accessToken = decryptPlaidToken(plaidItem.accessTokenEncrypted);
+
+  const accountsResponse = await plaidClient.accountsGet({
+    access_token: accessToken,
+  });
+
+  await cacheItemAccounts(plaidItem, accountsResponse.data.accounts);
+
+  logger.debug('Refreshed cached accounts for Plaid item', {
+    userId: plaidItem.userId,
+    itemId: plaidItem.itemId,
+    accountCount: accountsResponse.data.accounts.length,
+  });
+
+  return accountsResponse.data.accounts;
+}
+
+/**
+ * Refresh cached accounts for every active Plaid item of a user
+ * Items whose token has expired are marked as such and skipped
+ */
+export async function refreshUserAccounts(userId: string): Promise<void> {
+  const plaidItems = await prisma.plaidItem.findMany({
+    where: { userId },
+  });
+
+  for (const item of plaidItems) {
+    if (item.status === 'expired' || item.status === 'revoked') {
+      continue;
+    }
+
+    try {
+      await refreshItemAccounts(item);
+    } catch (error) {
+      logPlaidError(error, { userId, itemId: item.itemId, operation: 'accountsGet (account refresh)' });
+
+      if (isTokenExpiredError(error)) {
+        logger.warn('Plaid item token expired during account refresh, updating status', {
+          itemId: item.itemId,
+          userId,
+        });
+        await prisma.plaidItem.update({
+          where: { id: item.id },
+          data: {
+            status: 'expired',
+            lastError: 'ITEM_LOGIN_REQUIRED',
+            updatedAt: new Date(),
+          },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Resolve a Plaid account_id to the PlaidItem that owns it using the local cache
+ * Falls back to refreshing the user's accounts once when the account isn't cached yet
+ */
+export async function findPlaidItemForAccount(userId: string, accountId: string): Promise<PlaidItem | null> {
+  const cached = await prisma.account.findFirst({
+    where: { userId, accountId },
+    include: { plaidItem: true },
+  });
+
+  if (cached) {
+    return cached.plaidItem;
+  }
+
+  logger.debug('Account not cached, refreshing accounts for user', { userId, accountId });
+  await refreshUserAccounts(userId);
+
+  const refreshed = await prisma.account.findFirst({
+    where: { userId, accountId },
+    include: { plaidItem: true },
+  });
+
+  return refreshed?.plaidItem || null;
+}
+
+/**
+ * Refresh cached accounts for all users
+ */
+async function refreshAllAccounts() {
+  try {
+    logger.info('Starting account cache refresh');
+
+    const users = await prisma.user.findMany({
+      select: { id: true },
+    });
+
+    const result = await runForEachUser('account-refresh', users.map(user => user.id), async userId => {
+      await refreshUserAccounts(userId);
+    });
+
+    logger.info('Account cache refresh completed', { userCount: users.length, ...result });
+  } catch (error) {
+    logger.error('Account cache refresh error', { error });
+  }
+}
+
+export function startAccountRefreshJob() {
+  // Run daily at 03:00 UTC
+  scheduleJob('account-refresh', '0 3 * * *', refreshAllAccounts);
+
+  logger.info('Account refresh job scheduled', { schedule: 'daily at 03:00 UTC' });
+}
+
+// Export for manual triggering if needed
+export { refreshAllAccounts };
@@ -1,55 +1,27 @@
-import * as cron from 'node-cron';
-import { PlaidApi, PlaidEnvironments, Configuration } from 'plaid';
-import prisma, { decryptPlaidToken } from '../db';
+import { PlaidItem } from '@prisma/client';
+import prisma from '../db';
 import logger from '../utils/logger';
 import { isTokenExpiredError, logPlaidError } from '../utils/plaidErrors';
-
-// Initialize Plaid client
-const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments] || PlaidEnvironments.sandbox,
-  baseOptions: {
-    headers: {
-      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
-      'PLAID-SECRET': process.env.PLAID_SECRET!,
-    },
-  },
-});
-
-const plaidClient = new PlaidApi(configuration);
+import { findPlaidItemForAccount, refreshItemAccounts } from './syncAccounts';
+import { getTrackedCreditAccountIds } from '../utils/trackedAccounts';
+import { isSyncDue, recordSyncFailure, recordSyncSuccess } from '../utils/syncState';
+import { runForEachUser, scheduleJob } from './jobRunner';
 
 /**
  * Sync account balances for a specific user
- * Fetches balances for both credit and checking accounts and stores them
+ * Fetches balances for every tracked credit card and the checking account and stores them.
+ * Items that keep failing are skipped until their backoff expires, unless ignoreBackoff is set.
  */
-export async function syncUserBalances(userId: string) {
+export async function syncUserBalances(userId: string, options: { ignoreBackoff?: boolean } = {}) {
   try {
     // Get user's account selection
     const accountSelection = await prisma.accountSelection.findUnique({
       where: { userId },
     });
 
-    if (!accountSelection) {
-      logger.debug('No account selection found for user', { userId });
-      return;
-    }
-
-    // Get all PlaidItems for this user
-    const plaidItems = await prisma.plaidItem.findMany({
-      where: { userId },
-    });
-
-    if (plaidItems.length === 0) {
-      logger.debug('No Plaid items found for user', { userId });
-      return;
-    }
-
-    // Find PlaidItems that contain the selected accounts
-    // We need to check all items since credit and checking might be in different items
-    const accountIdsToSync: string[] = [];
-    if (accountSelection.creditAccountId) {
-      accountIdsToSync.push(accountSelection.creditAccountId);
-    }
-    if (accountSelection.checkingAccountId) {
+    // Tracked credit cards and the checking account might belong to different PlaidItems
+    const accountIdsToSync = await getTrackedCreditAccountIds(userId);
+    if (accountSelection?.checkingAccountId && !accountIdsToSync.includes(accountSelection.checkingAccountId)) {
       accountIdsToSync.push(accountSelection.checkingAccountId);
     }
 
@@ -58,11 +30,17 @@ export async function syncUserBalances(userId: string) {
       return;
     }
 
-    // Map to store access tokens for each account
-    const accountToTokenMap = new Map<string, string>();
+    // Group the selected accounts by the PlaidItem that owns them, using the local account cache
+    const itemsToSync = new Map<string, { item: PlaidItem; accountIds: string[] }>();
+
+    for (const accountId of accountIdsToSync) {
+      const item = await findPlaidItemForAccount(userId, accountId);
+
+      if (!item) {
+        logger.warn('Could not find Plaid item for selected account', { userId, accountId });
+        continue;
+      }
 
-    // Find which PlaidItem contains each account
-    for (const item of plaidItems) {
       // Skip expired or revoked items
       if (item.status === 'expired' || item.status === 'revoked') {
         logger.debug('Skipping balance sync for expired/revoked Plaid item', {
@@ -73,21 +51,32 @@ export async function syncUserBalances(userId: string) {
         continue;
       }
 
-      const decryptedToken = decryptPlaidToken(item.accessTokenEncrypted);
+      if (!itemsToSync.has(item.id) && !options.ignoreBackoff && !(await isSyncDue(item.id, 'balances'))) {
+        logger.debug('Skipping balance sync for Plaid item in backoff', { itemId: item.itemId, userId });
+        continue;
+      }
 
-      try {
-        const accountsResponse = await plaidClient.accountsGet({
-          access_token: decryptedToken,
-        });
+      const entry = itemsToSync.get(item.id) || { item, accountIds: [] };
+      entry.accountIds.push(accountId);
+      itemsToSync.set(item.id, entry);
+    }
 
-        // Check which selected accounts are in this item
-        for (const account of accountsResponse.data.accounts) {
-          if (accountIdsToSync.includes(account.account_id)) {
-            accountToTokenMap.set(account.account_id, decryptedToken);
-          }
-        }
+    if (itemsToSync.size === 0) {
+      logger.warn('Could not find Plaid items with selected accounts for user', { userId });
+      return;
+    }
+
+    // Fetch balances once per item and store a snapshot for each selected account
+    let syncedCount = 0;
+    for (const { item, accountIds } of itemsToSync.values()) {
+      let accounts;
+      try {
+        // Refreshing also keeps the account cache current
+        accounts = await refreshItemAccounts(item);
+        await recordSyncSuccess(item.id, 'balances');
       } catch (error) {
-        logPlaidError(error, { userId, itemId: item.itemId, operation: 'accountsGet' });
+        logPlaidError(error, { userId, itemId: item.itemId, operation: 'accountsGet (balance sync)' });
+        await recordSyncFailure(item.id, 'balances', error);
 
         // Check if token is expired
         if (isTokenExpiredError(error)) {
@@ -104,23 +93,12 @@ export async function syncUserBalances(userId: string) {
             },
           });
         }
+        // Continue with other items even if one fails
+        continue;
       }
-    }
-
-    if (accountToTokenMap.size === 0) {
-      logger.warn('Could not find Plaid items with selected accounts for user', { userId });
-      return;
-    }
-
-    // Fetch and store balances for each account
-    let syncedCount = 0;
-    for (const [accountId, accessToken] of accountToTokenMap.entries()) {
-      try {
-        const accountsResponse = await plaidClient.accountsGet({
-          access_token: accessToken,
-        });
 
-        const account = accountsResponse.data.accounts.find((acc: any) => acc.account_id === accountId);
+      for (const accountId of accountIds) {
+        const account = accounts.find(acc => acc.account_id === accountId);
 
         if (!account) {
           logger.warn('Account not found in Plaid response', { userId, accountId });
@@ -140,6 +118,7 @@ export async function syncUserBalances(userId: string) {
             accountId,
             available: available !== null ? available : undefined,
             current: current !== null ? current : undefined,
+            isoCurrencyCode: balances?.iso_currency_code || balances?.unofficial_currency_code || null,
             asOf: new Date(),
           },
         });
@@ -151,9 +130,6 @@ export async function syncUserBalances(userId: string) {
           available,
           current,
         });
-      } catch (error) {
-        logPlaidError(error, { userId, itemId: accountId, operation: 'accountsGet (balance sync)' });
-        // Continue with other accounts even if one fails
       }
     }
 
@@ -181,23 +157,15 @@ async function syncAllUserBalances() {
       select: { id: true },
     });
 
-    let successCount = 0;
-    let errorCount = 0;
-
-    for (const user of users) {
-      try {
-        await syncUserBalances(user.id);
-        successCount++;
-      } catch (error) {
-        errorCount++;
-        logger.error('Failed to sync balances for user', { userId: user.id, error });
-      }
-    }
+    const result = await runForEachUser('balance-sync', users.map(user => user.id), userId =>
+      syncUserBalances(userId)
+    );
 
     logger.info('Balance sync job completed', {
       totalUsers: users.length,
-      successCount,
-      errorCount,
+      successCount: result.succeeded,
+      errorCount: result.failed,
+      timedOutCount: result.timedOut,
     });
   } catch (error) {
     logger.error('Balance sync job error', { error });
@@ -210,9 +178,7 @@ async function syncAllUserBalances() {
  */
 export function startBalanceSyncJob() {
   // Run every hour at minute 0
-  cron.schedule('0 * * * *', async () => {
-    await syncAllUserBalances();
-  });
+  scheduleJob('balance-sync', '0 * * * *', syncAllUserBalances);
 
   logger.info('Balance sync job scheduled to run every hour');
 }
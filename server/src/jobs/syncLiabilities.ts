@@ -0,0 +1,207 @@
+/**
+ * Credit card liabilities sync job
+ * Stores the statement balance, minimum payment, due date and APRs Plaid Liabilities
+ * reports for each credit card. Institutions that don't support Liabilities are skipped.
+ */
+
+import { PlaidApi, PlaidEnvironments, Configuration, CreditCardLiability, LiabilitiesGetResponse } from 'plaid';
+import { PlaidItem } from '@prisma/client';
+import prisma, { decryptPlaidToken } from '../db';
+import logger from '../utils/logger';
+import { extractPlaidError, isTokenExpiredError, logPlaidError } from '../utils/plaidErrors';
+import { isSyncDue, recordSyncFailure, recordSyncSuccess } from '../utils/syncState';
+import { runForEachUser, scheduleJob } from './jobRunner';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments] || PlaidEnvironments.sandbox,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
+      'PLAID-SECRET': process.env.PLAID_SECRET!,
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
+
+// Error codes meaning the item simply has no liabilities data, not that the sync failed
+const NO_LIABILITIES_ERROR_CODES = [
+  'PRODUCTS_NOT_SUPPORTED',
+  'PRODUCT_NOT_READY',
+  'NO_LIABILITY_ACCOUNTS',
+];
+
+/**
+ * Parse a Plaid calendar date (YYYY-MM-DD) into UTC midnight of that date
+ */
+function parseCalendarDate(value: string | null | undefined): Date | null {
+  return value ? new Date(`${value}T00:00:00.000Z`) : null;
+}
+
+function serializeAprs(card: CreditCardLiability): string {
+  return JSON.stringify(
+    (card.aprs || []).map(apr => ({
+      type: apr.apr_type,
+      percentage: apr.apr_percentage,
+      balanceSubjectToApr: apr.balance_subject_to_apr ?? null,
+      interestChargeAmount: apr.interest_charge_amount ?? null,
+    }))
+  );
+}
+
+/**
+ * Fetch credit card liabilities for a Plaid item and store them
+ * Returns the number of cards stored; items without liabilities data store nothing
+ */
+export async function syncItemLiabilities(plaidItem: PlaidItem): Promise<number> {
+  let liabilitiesResponse: LiabilitiesGetResponse;
+  try {
+    const response = await plaidClient.liabilitiesGet({
+      access_token: decryptPlaidToken(plaidItem.accessTokenEncrypted),
+    });
+    liabilitiesResponse = response.data;
+  } catch (error) {
+    const errorCode = extractPlaidError(error)?.error_code;
+    if (errorCode && NO_LIABILITIES_ERROR_CODES.includes(errorCode)) {
+      logger.debug('No liabilities data for Plaid item', {
+        userId: plaidItem.userId,
+        itemId: plaidItem.itemId,
+        errorCode,
+      });
+      return 0;
+    }
+    throw error;
+  }
+
+  const cards = liabilitiesResponse.liabilities.credit || [];
+  const currencies = new Map(
+    liabilitiesResponse.accounts.map(account => [
+      account.account_id,
+      account.balances?.iso_currency_code || account.balances?.unofficial_currency_code || null,
+    ])
+  );
+  const now = new Date();
+
+  await prisma.$transaction(
+    cards
+      .filter((card): card is CreditCardLiability & { account_id: string } => !!card.account_id)
+      .map(card => {
+        const fields = {
+          userId: plaidItem.userId,
+          plaidItemId: plaidItem.id,
+          lastStatementBalance: card.last_statement_balance,
+          lastStatementIssueDate: parseCalendarDate(card.last_statement_issue_date),
+          minimumPaymentAmount: card.minimum_payment_amount,
+          nextPaymentDueDate: parseCalendarDate(card.next_payment_due_date),
+          lastPaymentAmount: card.last_payment_amount,
+          lastPaymentDate: parseCalendarDate(card.last_payment_date),
+          isOverdue: card.is_overdue,
+          aprs: serializeAprs(card),
+          isoCurrencyCode: currencies.get(card.account_id) || null,
+          lastRefreshedAt: now,
+        };
+
+        return prisma.creditLiability.upsert({
+          where: { accountId: card.account_id },
+          update: fields,
+          create: { ...fields, accountId: card.account_id },
+        });
+      })
+  );
+
+  logger.debug('Synced liabilities for Plaid item', {
+    userId: plaidItem.userId,
+    itemId: plaidItem.itemId,
+    cardCount: cards.length,
+  });
+
+  return cards.length;
+}
+
+/**
+ * Sync credit card liabilities for every active Plaid item of a user
+ * Items that keep failing are skipped until their backoff expires, unless ignoreBackoff is set
+ */
+export async function syncUserLiabilities(userId: string, options: { ignoreBackoff?: boolean } = {}) {
+  const plaidItems = await prisma.plaidItem.findMany({
+    where: { userId },
+  });
+
+  let cardCount = 0;
+  for (const item of plaidItems) {
+    // Skip expired or revoked items
+    if (item.status === 'expired' || item.status === 'revoked') {
+      continue;
+    }
+
+    if (!options.ignoreBackoff && !(await isSyncDue(item.id, 'liabilities'))) {
+      logger.debug('Skipping liabilities sync for Plaid item in backoff', { itemId: item.itemId, userId });
+      continue;
+    }
+
+    try {
+      cardCount += await syncItemLiabilities(item);
+      await recordSyncSuccess(item.id, 'liabilities');
+    } catch (error) {
+      logPlaidError(error, { userId, itemId: item.itemId, operation: 'liabilitiesGet' });
+      await recordSyncFailure(item.id, 'liabilities', error);
+
+      if (isTokenExpiredError(error)) {
+        logger.warn('Plaid item token expired during liabilities sync, updating status', {
+          itemId: item.itemId,
+          userId,
+        });
+        await prisma.plaidItem.update({
+          where: { id: item.id },
+          data: {
+            status: 'expired',
+            lastError: 'ITEM_LOGIN_REQUIRED',
+            updatedAt: new Date(),
+          },
+        });
+      }
+      // Continue with other items even if one fails
+    }
+  }
+
+  if (cardCount > 0) {
+    logger.info('Liabilities sync completed', { userId, cardCount });
+  }
+}
+
+/**
+ * Sync liabilities for all users
+ */
+async function syncAllUserLiabilities() {
+  try {
+    logger.info('Starting liabilities sync for all users');
+
+    const users = await prisma.user.findMany({
+      select: { id: true },
+    });
+
+    const result = await runForEachUser('liabilities-sync', users.map(user => user.id), userId =>
+      syncUserLiabilities(userId)
+    );
+
+    logger.info('Liabilities sync job completed', {
+      totalUsers: users.length,
+      successCount: result.succeeded,
+      errorCount: result.failed,
+      timedOutCount: result.timedOut,
+    });
+  } catch (error) {
+    logger.error('Liabilities sync job error', { error });
+  }
+}
+
+export function startLiabilitiesSyncJob() {
+  // Run every 6 hours at minute 30, clear of the hourly balance sync
+  scheduleJob('liabilities-sync', '30 */6 * * *', syncAllUserLiabilities);
+
+  logger.info('Liabilities sync job scheduled', { schedule: 'every 6 hours at minute 30' });
+}
+
+// Export for manual triggering if needed
+export { syncAllUserLiabilities };
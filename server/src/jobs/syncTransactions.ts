@@ -1,8 +1,23 @@
-import * as cron from 'node-cron';
-import { PlaidApi, PlaidEnvironments, Configuration, CountryCode } from 'plaid';
+import {
+  PlaidApi,
+  PlaidEnvironments,
+  Configuration,
+  RemovedTransaction,
+  Transaction as PlaidTransaction,
+  TransactionsUpdateStatus,
+} from 'plaid';
+import { PlaidItem, Prisma } from '@prisma/client';
 import prisma, { decryptPlaidToken } from '../db';
+import { env } from '../config/env';
 import logger from '../utils/logger';
-import { isTokenExpiredError, logPlaidError } from '../utils/plaidErrors';
+import { calendarDateToInstant, getUserTimezone, localDateOf } from '../utils/localDate';
+import { recomputeDailyReportsForDays } from './computeDailyReports';
+import { findPlaidItemForAccount, refreshItemAccounts } from './syncAccounts';
+import { extractPlaidError, isTokenExpiredError, logPlaidError } from '../utils/plaidErrors';
+import { getTrackedCreditAccountIds } from '../utils/trackedAccounts';
+import { isSyncDue, recordSyncFailure, recordSyncSuccess } from '../utils/syncState';
+import { applyCardPayments, isCardPayment, releaseCardPayments } from '../utils/payments';
+import { runForEachUser, scheduleJob, UserLockedError, withUserLock } from './jobRunner';
 
 // Initialize Plaid client
 const configuration = new Configuration({
@@ -17,252 +32,452 @@ const configuration = new Configuration({
 
 const plaidClient = new PlaidApi(configuration);
 
-export async function syncUserTransactions(userId: string) {
-  try {
-    // Get user's account selection
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+const MAX_SYNC_RESTARTS = 3;
+
+export interface ItemSyncResult {
+  added: number;
+  modified: number;
+  removed: number;
+  // Pending transactions superseded by their posted version
+  retired: number;
+  // Local dates (yyyy-MM-dd) this sync added, changed or removed spending on, used to
+  // refresh the matching daily reports
+  affectedDays: string[];
+  // Whether Plaid has finished pulling the item's full transaction history
+  historicalUpdateComplete: boolean;
+}
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
-      logger.debug('No credit account selected for user', { userId });
-      return;
-    }
+function toTransactionFields(transaction: PlaidTransaction, timezone: string) {
+  return {
+    // Plaid returns a calendar date (YYYY-MM-DD) with no time component
+    date: calendarDateToInstant(transaction.date, timezone),
+    name: transaction.name,
+    amount: transaction.amount,
+    pending: transaction.pending,
+    merchantName: transaction.merchant_name ?? null,
+    logoUrl: transaction.logo_url ?? null,
+    categoryPrimary: transaction.personal_finance_category?.primary ?? null,
+    categoryDetailed: transaction.personal_finance_category?.detailed ?? null,
+    paymentChannel: transaction.payment_channel ?? null,
+    isoCurrencyCode: transaction.iso_currency_code ?? null,
+    unofficialCurrencyCode: transaction.unofficial_currency_code ?? null,
+    authorizedDate: transaction.authorized_date ? calendarDateToInstant(transaction.authorized_date, timezone) : null,
+    locationAddress: transaction.location?.address ?? null,
+    locationCity: transaction.location?.city ?? null,
+    locationRegion: transaction.location?.region ?? null,
+    locationPostalCode: transaction.location?.postal_code ?? null,
+    locationCountry: transaction.location?.country ?? null,
+    locationLat: transaction.location?.lat ?? null,
+    locationLon: transaction.location?.lon ?? null,
+    pendingTransactionId: transaction.pending_transaction_id ?? null,
+    isPayment: isCardPayment({
+      name: transaction.name,
+      amount: transaction.amount,
+      categoryPrimary: transaction.personal_finance_category?.primary ?? null,
+      categoryDetailed: transaction.personal_finance_category?.detailed ?? null,
+    }),
+  };
+}
 
-    // Get all PlaidItems for this user
-    const plaidItems = await prisma.plaidItem.findMany({
-      where: { userId },
+/**
+ * Delete transactions Plaid reported as removed, by Plaid transaction_id
+ * Shared by /transactions/sync and the TRANSACTIONS_REMOVED webhook so both paths do the
+ * same bookkeeping, including reopening days a removed card payment paid. Callers apply
+ * card payments again afterwards. Returns the dates the deleted rows fell on, to recompute those days.
+ */
+export async function removePlaidTransactions(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  plaidTransactionIds: string[]
+): Promise<Date[]> {
+  const removedRows = await tx.transaction.findMany({
+    where: {
+      userId,
+      plaidTransactionId: { in: plaidTransactionIds },
+    },
+    select: { id: true, userId: true, amount: true, date: true, isPayment: true },
+  });
+
+  // Deleting a payment would otherwise leave the days it paid marked paid with nothing behind them
+  await releaseCardPayments(tx, removedRows.filter(t => t.isPayment));
+
+  if (removedRows.length > 0) {
+    await tx.transaction.deleteMany({
+      where: {
+        userId,
+        plaidTransactionId: { in: plaidTransactionIds },
+      },
     });
+  }
 
-    if (plaidItems.length === 0) {
-      logger.debug('No Plaid items found for user', { userId });
-      return;
-    }
+  return removedRows.map(t => t.date);
+}
 
-    // Find the PlaidItem that contains the selected credit account
-    // Skip items with expired/revoked status
-    let selectedPlaidItem = null;
-    let accessToken = null;
+/**
+ * Pull all outstanding changes for a Plaid item from /transactions/sync
+ * Every page is fetched before anything is written, then the added, modified and
+ * removed sets are applied together with the new cursor in a single database
+ * transaction. A failed run leaves the previously committed cursor in place.
+ */
+export async function syncItemTransactions(
+  plaidItem: PlaidItem,
+  accessToken: string
+): Promise<ItemSyncResult> {
+  const startCursor = plaidItem.syncCursor || undefined;
+
+  let added: PlaidTransaction[] = [];
+  let modified: PlaidTransaction[] = [];
+  let removed: RemovedTransaction[] = [];
+  let cursor = startCursor;
+  let hasMore = true;
+  let restarts = 0;
+  let updateStatus: string | undefined;
+
+  while (hasMore) {
+    try {
+      const response = await plaidClient.transactionsSync({
+        access_token: accessToken,
+        cursor,
+        // Only honoured before the item's first sync, for items linked without transactions
+        ...(startCursor ? {} : { options: { days_requested: env.plaidTransactionsDaysRequested } }),
+      });
 
-    for (const item of plaidItems) {
-      // Skip expired or revoked items
-      if (item.status === 'expired' || item.status === 'revoked') {
-        logger.debug('Skipping sync for expired/revoked Plaid item', { 
-          itemId: item.itemId, 
-          userId, 
-          status: item.status 
+      added = added.concat(response.data.added);
+      modified = modified.concat(response.data.modified);
+      removed = removed.concat(response.data.removed);
+      hasMore = response.data.has_more;
+      cursor = response.data.next_cursor;
+      updateStatus = response.data.transactions_update_status;
+
+      logger.debug('Fetched transaction sync page', {
+        userId: plaidItem.userId,
+        itemId: plaidItem.itemId,
+        added: response.data.added.length,
+        modified: response.data.modified.length,
+        removed: response.data.removed.length,
+        hasMore,
+      });
+    } catch (error) {
+      // Plaid requires the whole pagination loop to restart from the first cursor
+      // when the underlying data changes mid-way
+      const plaidError = extractPlaidError(error);
+      if (plaidError?.error_code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && restarts < MAX_SYNC_RESTARTS) {
+        restarts++;
+        logger.warn('Transactions changed during sync pagination, restarting', {
+          userId: plaidItem.userId,
+          itemId: plaidItem.itemId,
+          restarts,
         });
+        added = [];
+        modified = [];
+        removed = [];
+        cursor = startCursor;
+        hasMore = true;
         continue;
       }
+      throw error;
+    }
+  }
 
-      const decryptedToken = decryptPlaidToken(item.accessTokenEncrypted);
-      
-      try {
-        const accountsResponse = await plaidClient.accountsGet({
-          access_token: decryptedToken,
-        });
+  const timezone = await getUserTimezone(plaidItem.userId);
+  const affectedDays = new Set<string>();
+  const touchDay = (date: Date) => affectedDays.add(localDateOf(date, timezone));
+  let retired = 0;
+
+  await prisma.$transaction(async (tx) => {
+    const upserted = [...added, ...modified];
+
+    // A modified transaction can move to another day, leaving the old day's total stale
+    if (modified.length > 0) {
+      const previousRows = await tx.transaction.findMany({
+        where: {
+          userId: plaidItem.userId,
+          plaidTransactionId: { in: modified.map(t => t.transaction_id) },
+        },
+        select: { date: true },
+      });
+      previousRows.forEach(t => touchDay(t.date));
+    }
 
-        const hasCreditAccount = accountsResponse.data.accounts.some(
-          (acc: any) => acc.account_id === accountSelection.creditAccountId
-        );
+    for (const transaction of upserted) {
+      const fields = toTransactionFields(transaction, timezone);
+      await tx.transaction.upsert({
+        where: { plaidTransactionId: transaction.transaction_id },
+        update: {
+          ...fields,
+          accountId: transaction.account_id,
+          updatedAt: new Date(),
+        },
+        create: {
+          ...fields,
+          userId: plaidItem.userId,
+          accountId: transaction.account_id,
+          plaidTransactionId: transaction.transaction_id,
+        },
+      });
+      touchDay(fields.date);
+    }
 
-        if (hasCreditAccount) {
-          selectedPlaidItem = item;
-          accessToken = decryptedToken;
-          break;
-        }
-      } catch (error) {
-        logPlaidError(error, { userId, itemId: item.itemId, operation: 'accountsGet' });
-        
-        // Check if token is expired
-        if (isTokenExpiredError(error)) {
-          logger.warn('Plaid item token expired, updating status', { itemId: item.itemId, userId });
-          await prisma.plaidItem.update({
-            where: { id: item.id },
-            data: {
-              status: 'expired',
-              lastError: 'ITEM_LOGIN_REQUIRED',
-              updatedAt: new Date(),
-            },
-          });
-        }
+    // A posted transaction replaces its pending charge under a new transaction_id.
+    // Retire the pending row so the purchase is only counted once; the pending and
+    // posted dates may differ, so both days are recomputed.
+    const settledPendingIds = upserted
+      .filter(t => t.pending_transaction_id)
+      .map(t => t.pending_transaction_id!);
+
+    // Pending rows can also arrive after the posted row that references them
+    const upsertedPendingIds = upserted.filter(t => t.pending).map(t => t.transaction_id);
+    if (upsertedPendingIds.length > 0) {
+      const alreadySettled = await tx.transaction.findMany({
+        where: {
+          userId: plaidItem.userId,
+          pendingTransactionId: { in: upsertedPendingIds },
+        },
+        select: { pendingTransactionId: true },
+      });
+      settledPendingIds.push(...alreadySettled.map(t => t.pendingTransactionId!));
+    }
+
+    if (settledPendingIds.length > 0) {
+      const supersededRows = await tx.transaction.findMany({
+        where: {
+          userId: plaidItem.userId,
+          plaidTransactionId: { in: settledPendingIds },
+          retiredAt: null,
+        },
+        select: { id: true, date: true },
+      });
+
+      if (supersededRows.length > 0) {
+        await tx.transaction.updateMany({
+          where: { id: { in: supersededRows.map(t => t.id) } },
+          data: { retiredAt: new Date() },
+        });
+        supersededRows.forEach(t => touchDay(t.date));
+        retired = supersededRows.length;
       }
     }
 
-    if (!selectedPlaidItem || !accessToken) {
-      logger.warn('Could not find Plaid item with credit account for user', { userId });
-      return;
+    if (removed.length > 0) {
+      const removedDates = await removePlaidTransactions(tx, plaidItem.userId, removed.map(t => t.transaction_id));
+      removedDates.forEach(touchDay);
     }
 
-    // Get user's timezone
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { timezone: true },
+    await tx.plaidItem.update({
+      where: { id: plaidItem.id },
+      data: { syncCursor: cursor ?? null },
     });
+  }, { timeout: 60000 });
+
+  return {
+    added: added.length,
+    modified: modified.length,
+    removed: removed.length,
+    retired,
+    affectedDays: Array.from(affectedDays),
+    historicalUpdateComplete: updateStatus === TransactionsUpdateStatus.HistoricalUpdateComplete,
+  };
+}
 
-    const userTimezone = user?.timezone || 'America/New_York';
+/**
+ * Sync a single Plaid item and refresh the daily reports for the days it touched
+ * Used for webhook-triggered syncs, independently of the user's account selection
+ */
+export async function syncPlaidItem(plaidItemId: string): Promise<void> {
+  const plaidItem = await prisma.plaidItem.findUnique({
+    where: { id: plaidItemId },
+  });
 
-    // Calculate date range: last 30 days to today (in user's timezone)
-    const now = new Date();
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - 30);
+  if (!plaidItem) {
+    logger.debug('Plaid item no longer exists, skipping sync', { plaidItemId });
+    return;
+  }
 
-    // Get stored cursor for incremental sync
-    const storedCursor = selectedPlaidItem.syncCursor;
-    
-    // Use cursor if available for incremental sync, otherwise start fresh
-    let cursor = storedCursor || undefined;
-    let totalSyncedCount = 0;
-    let hasMore = true;
+  if (plaidItem.status === 'expired' || plaidItem.status === 'revoked') {
+    logger.debug('Skipping sync for expired/revoked Plaid item', {
+      itemId: plaidItem.itemId,
+      userId: plaidItem.userId,
+      status: plaidItem.status,
+    });
+    return;
+  }
 
-    // Fetch transactions with pagination
-    while (hasMore) {
-      try {
-        const requestParams: any = {
-          access_token: accessToken,
-          start_date: startDate.toISOString().split('T')[0],
-          end_date: now.toISOString().split('T')[0],
-          account_ids: [accountSelection.creditAccountId],
-        };
-
-        // Add cursor if this is a continuation
-        if (cursor) {
-          requestParams.cursor = cursor;
-        }
+  // Throws UserLockedError while another job is working on the user
+  await withUserLock(plaidItem.userId, 'item-sync', () => syncItemAndRecomputeReports(plaidItem));
+}
 
-        const transactionsResponse = await plaidClient.transactionsGet(requestParams);
-
-      // Upsert transactions from this page
-      let pageSyncedCount = 0;
-      for (const transaction of transactionsResponse.data.transactions) {
-        // Convert date to user's timezone for storage
-        const transactionDate = new Date(transaction.date + 'T00:00:00');
-        
-        await prisma.transaction.upsert({
-          where: { plaidTransactionId: transaction.transaction_id },
-          update: {
-            date: transactionDate,
-            name: transaction.name,
-            amount: transaction.amount,
-            pending: transaction.pending,
-            updatedAt: new Date(),
-          },
-          create: {
-            userId,
-            accountId: transaction.account_id,
-            plaidTransactionId: transaction.transaction_id,
-            date: transactionDate,
-            name: transaction.name,
-            amount: transaction.amount,
-            pending: transaction.pending,
-          },
-        });
-        pageSyncedCount++;
+async function syncItemAndRecomputeReports(plaidItem: PlaidItem): Promise<void> {
+  const accessToken = decryptPlaidToken(plaidItem.accessTokenEncrypted);
+
+  let result: ItemSyncResult;
+  try {
+    result = await syncItemTransactions(plaidItem, accessToken);
+    await recordSyncSuccess(plaidItem.id, 'transactions');
+  } catch (error) {
+    logPlaidError(error, { userId: plaidItem.userId, itemId: plaidItem.itemId, operation: 'transactionsSync' });
+    await recordSyncFailure(plaidItem.id, 'transactions', error);
+    if (isTokenExpiredError(error)) {
+      await prisma.plaidItem.update({
+        where: { id: plaidItem.id },
+        data: {
+          status: 'expired',
+          lastError: 'ITEM_LOGIN_REQUIRED',
+          updatedAt: new Date(),
+        },
+      });
+    }
+    return;
+  }
+
+  await recomputeDailyReportsForDays(plaidItem.userId, result.affectedDays);
+  await applyCardPayments(plaidItem.userId);
+
+  logger.info('Synced transactions for Plaid item', {
+    userId: plaidItem.userId,
+    itemId: plaidItem.itemId,
+    added: result.added,
+    modified: result.modified,
+    removed: result.removed,
+    retired: result.retired,
+    recomputedDays: result.affectedDays.length,
+  });
+}
+
+// Webhooks tend to arrive in bursts (e.g. INITIAL_UPDATE followed by HISTORICAL_UPDATE),
+// so syncs are delayed briefly and collapsed into a single run per item
+const ITEM_SYNC_DEBOUNCE_MS = 5000;
+const pendingItemSyncs = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Schedule a debounced sync of one Plaid item
+ * Repeated calls within the debounce window reset the timer
+ */
+export function scheduleItemSync(plaidItemId: string): void {
+  const existing = pendingItemSyncs.get(plaidItemId);
+  if (existing) {
+    clearTimeout(existing);
+  }
+
+  const timer = setTimeout(() => {
+    pendingItemSyncs.delete(plaidItemId);
+    syncPlaidItem(plaidItemId).catch(error => {
+      if (error instanceof UserLockedError) {
+        // Another job is syncing this user; try again after the next debounce window
+        logger.debug('User locked by another job, rescheduling item sync', { plaidItemId, heldBy: error.heldBy });
+        scheduleItemSync(plaidItemId);
+        return;
+      }
+      logger.error('Error in webhook-triggered item sync', { error, plaidItemId });
+    });
+  }, ITEM_SYNC_DEBOUNCE_MS);
+
+  pendingItemSyncs.set(plaidItemId, timer);
+  logger.debug('Scheduled Plaid item sync', { plaidItemId, delayMs: ITEM_SYNC_DEBOUNCE_MS });
+}
+
+/**
+ * Sync every Plaid item that owns one of the user's tracked cards
+ * Items that keep failing are skipped until their backoff expires, unless ignoreBackoff
+ * is set (e.g. for a manual admin trigger)
+ */
+export async function syncUserTransactions(userId: string, options: { ignoreBackoff?: boolean } = {}) {
+  try {
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
+
+    if (creditAccountIds.length === 0) {
+      logger.debug('No credit account tracked for user', { userId });
+      return;
+    }
+
+    // Tracked cards may span several PlaidItems; each item is synced once
+    const itemsToSync = new Map<string, PlaidItem>();
+    for (const accountId of creditAccountIds) {
+      const item = await findPlaidItemForAccount(userId, accountId);
+
+      if (!item) {
+        logger.warn('Could not find Plaid item for tracked credit account', { userId, accountId });
+        continue;
       }
 
-      totalSyncedCount += pageSyncedCount;
-      
-      // Check if there are more pages
-      // Plaid API returns has_more and next_cursor in the response
-      const responseData = transactionsResponse.data as any;
-      hasMore = responseData.has_more === true;
-      cursor = responseData.next_cursor || undefined;
+      itemsToSync.set(item.id, item);
+    }
 
-        logger.debug('Synced transaction page', { 
+    for (const plaidItem of itemsToSync.values()) {
+      // Skip items with expired/revoked status
+      if (plaidItem.status === 'expired' || plaidItem.status === 'revoked') {
+        logger.debug('Skipping sync for expired/revoked Plaid item', { 
+          itemId: plaidItem.itemId, 
           userId, 
-          pageCount: pageSyncedCount, 
-          totalCount: totalSyncedCount,
-          hasMore,
-          itemId: selectedPlaidItem.itemId
+          status: plaidItem.status 
         });
+        continue;
+      }
 
-        // Update cursor in database after each page to allow recovery
-        if (cursor) {
-          await prisma.plaidItem.update({
-            where: { id: selectedPlaidItem.id },
-            data: { syncCursor: cursor },
-          });
-        }
+      if (!options.ignoreBackoff && !(await isSyncDue(plaidItem.id, 'transactions'))) {
+        logger.debug('Skipping sync for Plaid item in backoff', { itemId: plaidItem.itemId, userId });
+        continue;
+      }
+
+      const accessToken = decryptPlaidToken(plaidItem.accessTokenEncrypted);
+
+      let result: ItemSyncResult;
+      try {
+        result = await syncItemTransactions(plaidItem, accessToken);
+        await recordSyncSuccess(plaidItem.id, 'transactions');
       } catch (error) {
+        logPlaidError(error, { userId, itemId: plaidItem.itemId, operation: 'transactionsSync' });
+        await recordSyncFailure(plaidItem.id, 'transactions', error);
+
         // Check if token expired during sync
         if (isTokenExpiredError(error)) {
-          logPlaidError(error, { userId, itemId: selectedPlaidItem.itemId, operation: 'transactionsGet' });
-          logger.warn('Plaid token expired during sync, marking item as expired', { 
-            itemId: selectedPlaidItem.itemId, 
-            userId 
+          logger.warn('Plaid token expired during sync, marking item as expired', {
+            itemId: plaidItem.itemId,
+            userId
           });
           await prisma.plaidItem.update({
-            where: { id: selectedPlaidItem.id },
+            where: { id: plaidItem.id },
             data: {
               status: 'expired',
               lastError: 'ITEM_LOGIN_REQUIRED',
               updatedAt: new Date(),
             },
           });
-          // Break out of sync loop - don't continue with expired token
-          break;
         }
-        // Re-throw other errors
-        throw error;
+        // The failure is recorded and the item backs off; carry on with the user's other items
+        continue;
       }
-    }
 
-    // Clear cursor if we've synced all transactions (hasMore is false and cursor is null)
-    if (!hasMore && cursor === null) {
-      await prisma.plaidItem.update({
-        where: { id: selectedPlaidItem.id },
-        data: { syncCursor: null },
+      // Keep stored day totals in line with the sync, e.g. when a pending charge posts for a different amount
+      await recomputeDailyReportsForDays(userId, result.affectedDays);
+
+      logger.info('Synced transactions for user', {
+        userId,
+        itemId: plaidItem.itemId,
+        added: result.added,
+        modified: result.modified,
+        removed: result.removed,
+        retired: result.retired,
+        recomputedDays: result.affectedDays.length,
       });
     }
 
-    logger.info('Synced transactions for user', { userId, syncedCount: totalSyncedCount, itemId: selectedPlaidItem.itemId });
+    // Newly synced card payments mark the days they cover as paid
+    await applyCardPayments(userId);
+
+    const accountSelection = await prisma.accountSelection.findUnique({
+      where: { userId },
+    });
 
     // Sync checking account balance if selected
-    if (accountSelection.checkingAccountId) {
+    if (accountSelection?.checkingAccountId) {
       try {
-        // Find PlaidItem with checking account
-        let checkingAccessToken = null;
-        for (const item of plaidItems) {
-          const decryptedToken = decryptPlaidToken(item.accessTokenEncrypted);
-          
-          try {
-            const accountsResponse = await plaidClient.accountsGet({
-              access_token: decryptedToken,
-            });
-
-            const hasCheckingAccount = accountsResponse.data.accounts.some(
-              (acc: any) => acc.account_id === accountSelection.checkingAccountId
-            );
-
-            if (hasCheckingAccount) {
-              checkingAccessToken = decryptedToken;
-              break;
-            }
-          } catch (error) {
-            logPlaidError(error, { userId, itemId: item.itemId, operation: 'accountsGet (checking)' });
-            
-            // Check if token is expired
-            if (isTokenExpiredError(error)) {
-              logger.warn('Plaid item token expired while checking accounts', { itemId: item.itemId, userId });
-              await prisma.plaidItem.update({
-                where: { id: item.id },
-                data: {
-                  status: 'expired',
-                  lastError: 'ITEM_LOGIN_REQUIRED',
-                  updatedAt: new Date(),
-                },
-              });
-            }
-          }
-        }
+        const checkingPlaidItem = await findPlaidItemForAccount(userId, accountSelection.checkingAccountId);
 
-        if (checkingAccessToken) {
-          const accountsResponse = await plaidClient.accountsGet({
-            access_token: checkingAccessToken,
-          });
+        if (checkingPlaidItem && checkingPlaidItem.status !== 'expired' && checkingPlaidItem.status !== 'revoked') {
+          const accounts = await refreshItemAccounts(checkingPlaidItem);
 
-          const checkingAccount = accountsResponse.data.accounts.find(
-            (acc: any) => acc.account_id === accountSelection.checkingAccountId
+          const checkingAccount = accounts.find(
+            acc => acc.account_id === accountSelection.checkingAccountId
           );
 
           if (checkingAccount && checkingAccount.balances) {
@@ -272,6 +487,9 @@ export async function syncUserTransactions(userId: string) {
                 accountId: checkingAccount.account_id,
                 available: checkingAccount.balances.available || null,
                 current: checkingAccount.balances.current || null,
+                isoCurrencyCode: checkingAccount.balances.iso_currency_code
+                  || checkingAccount.balances.unofficial_currency_code
+                  || null,
                 asOf: new Date(),
               },
             });
@@ -288,7 +506,7 @@ export async function syncUserTransactions(userId: string) {
 
 export function startTransactionSyncJob() {
   // Run every 15 minutes
-  cron.schedule('*/15 * * * *', async () => {
+  scheduleJob('transaction-sync', '*/15 * * * *', async () => {
     logger.info('Running transaction sync job');
     
     const users = await prisma.user.findMany({
@@ -297,11 +515,11 @@ export function startTransactionSyncJob() {
 
     logger.debug('Transaction sync job processing users', { userCount: users.length });
 
-    for (const user of users) {
-      await syncUserTransactions(user.id);
-    }
+    const result = await runForEachUser('transaction-sync', users.map(user => user.id), userId =>
+      syncUserTransactions(userId)
+    );
 
-    logger.info('Transaction sync job completed', { userCount: users.length });
+    logger.info('Transaction sync job completed', { userCount: users.length, ...result });
   });
 
   logger.info('Transaction sync job scheduled', { schedule: 'every 15 minutes' });
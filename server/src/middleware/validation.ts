@@ -89,6 +89,24 @@ export const validators = {
     .isString()
     .withMessage('Goal must be a string'),
 
+  homeCurrency: body('homeCurrency')
+    .optional()
+    .trim()
+    .toUpperCase()
+    .matches(/^[A-Z]{3}$/)
+    .withMessage('Home currency must be a 3-letter ISO 4217 code'),
+
+  paymentReminderDays: body('paymentReminderDays')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 30 })
+    .withMessage('Payment reminder days must be an integer between 0 and 30, or null to turn reminders off')
+    .toInt(),
+
+  refundsReduceOwed: body('refundsReduceOwed')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('refundsReduceOwed must be a boolean'),
+
   creditAccountId: body('creditAccountId')
     .optional()
     .trim()
@@ -97,6 +115,28 @@ export const validators = {
     .isLength({ min: 1 })
     .withMessage('Credit account ID cannot be empty'),
 
+  creditAccountIds: body('creditAccountIds')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('creditAccountIds must be an array of at most 20 account IDs')
+    .custom((value: unknown[]) => {
+      if (!value.every(id => typeof id === 'string' && id.trim().length > 0)) {
+        throw new Error('Each credit account ID must be a non-empty string');
+      }
+      return true;
+    }),
+
+  accountIdParam: param('accountId')
+    .trim()
+    .notEmpty()
+    .withMessage('accountId is required')
+    .isString()
+    .withMessage('accountId must be a string'),
+
+  enabled: body('enabled')
+    .isBoolean({ strict: true })
+    .withMessage('enabled must be a boolean'),
+
   checkingAccountId: body('checkingAccountId')
     .optional()
     .trim()
@@ -127,6 +167,20 @@ export const validators = {
     .isISO8601()
     .withMessage('Date must be in ISO 8601 format'),
 
+  paymentAmount: body('amount')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Amount must be a positive number')
+    .toFloat(),
+
+  linkItemId: body('itemId')
+    .optional()
+    .trim()
+    .isString()
+    .withMessage('itemId must be a string')
+    .isLength({ min: 1 })
+    .withMessage('itemId cannot be empty'),
+
   itemId: param('itemId')
     .trim()
     .notEmpty()
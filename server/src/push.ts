@@ -1,6 +1,7 @@
 import apn from 'apn';
 import prisma from './db';
 import logger from './utils/logger';
+import { DEFAULT_CURRENCY, formatAmount } from './utils/currency';
 
 let apnProvider: apn.Provider | null = null;
 
@@ -147,10 +148,15 @@ export async function sendPushNotification(
   }
 }
 
-export async function sendDailyNotification(
+/**
+ * Send a notification to every registered device of a user
+ * Returns true if at least one device received it
+ */
+async function sendToUserDevices(
   userId: string,
-  totalAmount: number,
-  transactionCount: number
+  title: string,
+  body: string,
+  data: Record<string, any>
 ): Promise<boolean> {
   // Get all devices for this user
   const devices = await prisma.device.findMany({
@@ -162,17 +168,11 @@ export async function sendDailyNotification(
     return false;
   }
 
-  const title = 'Daily Paydown';
-  const body = `You spent USD ${totalAmount.toFixed(2)} today across ${transactionCount} purchase${transactionCount === 1 ? '' : 's'}. Tap to review.`;
-
   let successCount = 0;
   const failedDevices: string[] = [];
 
   for (const device of devices) {
-    const success = await sendPushNotification(device.apnsToken, title, body, {
-      type: 'daily_summary',
-      userId,
-    });
+    const success = await sendPushNotification(device.apnsToken, title, body, data);
     
     if (success) {
       successCount++;
@@ -197,5 +197,106 @@ export async function sendDailyNotification(
   return successCount > 0;
 }
 
+export async function sendDailyNotification(
+  userId: string,
+  totals: {
+    purchasesAmount: number;
+    refundsAmount: number;
+    amountOwed: number;
+    transactionCount: number;
+  },
+  currency: string = DEFAULT_CURRENCY,
+  // Amounts in currencies that couldn't be converted to `currency`
+  unconvertedAmounts: { currency: string; totalAmount: number }[] = [],
+  // Left unpaid on earlier days, in `currency`
+  carriedOver: number = 0
+): Promise<boolean> {
+  const { purchasesAmount, refundsAmount, amountOwed, transactionCount } = totals;
+  const title = 'Daily Paydown';
+  const amounts = unconvertedAmounts.map(entry => formatAmount(entry.currency, entry.totalAmount));
+  if (purchasesAmount !== 0 || amounts.length === 0) {
+    amounts.unshift(formatAmount(currency, purchasesAmount));
+  }
 
+  let body: string;
+  if (refundsAmount === 0) {
+    body = `You spent ${amounts.join(' + ')} today across ${transactionCount} purchase${transactionCount === 1 ? '' : 's'}.`;
+  } else if (purchasesAmount === 0 && unconvertedAmounts.length === 0) {
+    body = `You got ${formatAmount(currency, refundsAmount)} back in refunds and credits today. Nothing to pay down.`;
+  } else {
+    const owed = amountOwed > 0 ? `${formatAmount(currency, amountOwed)} to pay down` : 'Nothing to pay down';
+    body = `You spent ${amounts.join(' + ')} today and got ${formatAmount(currency, refundsAmount)} back in refunds and credits. ${owed}.`;
+  }
+  if (carriedOver > 0) {
+    body += ` Plus ${formatAmount(currency, carriedOver)} still unpaid from earlier days.`;
+  }
+  body += ' Tap to review.';
 
+  return sendToUserDevices(userId, title, body, {
+    type: 'daily_summary',
+    userId,
+  });
+}
+
+export async function sendPaymentReminderNotification(
+  userId: string,
+  reminder: {
+    accountId: string;
+    cardName: string;
+    statementBalance: number;
+    minimumPayment: number | null;
+    currency: string;
+    dueDate: string; // yyyy-MM-dd
+    daysUntilDue: number;
+  }
+): Promise<boolean> {
+  const title = 'Payment Due';
+  const due = reminder.daysUntilDue === 0
+    ? 'today'
+    : reminder.daysUntilDue === 1
+      ? 'tomorrow'
+      : `in ${reminder.daysUntilDue} days`;
+  const minimum = reminder.minimumPayment !== null
+    ? ` (minimum ${formatAmount(reminder.currency, reminder.minimumPayment)})`
+    : '';
+  const body = `Your ${reminder.cardName} statement balance of ${formatAmount(reminder.currency, reminder.statementBalance)} is due ${due}${minimum}.`;
+
+  return sendToUserDevices(userId, title, body, {
+    type: 'payment_reminder',
+    userId,
+    accountId: reminder.accountId,
+    dueDate: reminder.dueDate,
+  });
+}
+
+export async function sendPaidDayAdjustmentNotification(
+  userId: string,
+  adjustments: {
+    date: string; // yyyy-MM-dd
+    label: string; // How the day is referred to, e.g. "Tuesday"
+    delta: number; // Positive when more is owed than was paid
+    currency: string;
+  }[]
+): Promise<boolean> {
+  const title = 'Paid Day Changed';
+  let body: string;
+  if (adjustments.length === 1) {
+    const { label, delta, currency } = adjustments[0];
+    body = delta > 0
+      ? `You owe ${formatAmount(currency, delta)} more for ${label}. Tap to review.`
+      : `${label.charAt(0).toUpperCase()}${label.slice(1)}'s total went down by ${formatAmount(currency, -delta)} after you paid it. Tap to review.`;
+  } else {
+    const currencies = new Set(adjustments.map(adjustment => adjustment.currency));
+    const net = adjustments.reduce((sum, adjustment) => sum + adjustment.delta, 0);
+    const summary = currencies.size === 1 && net !== 0
+      ? ` You owe ${formatAmount(adjustments[0].currency, Math.abs(net))} ${net > 0 ? 'more' : 'less'} overall.`
+      : '';
+    body = `Totals changed on ${adjustments.length} days you already paid.${summary} Tap to review.`;
+  }
+
+  return sendToUserDevices(userId, title, body, {
+    type: 'paid_day_adjustment',
+    userId,
+    dates: adjustments.map(adjustment => adjustment.date),
+  });
+}
@@ -9,6 +9,12 @@ import { authenticateAdmin, AdminRequest } from '../middleware/adminAuth';
 import logger from '../utils/logger';
 import { syncUserTransactions } from '../jobs/syncTransactions';
 import { syncUserBalances } from '../jobs/syncBalances';
+import { recomputeDailyReportsForRange } from '../jobs/computeDailyReports';
+import { replayWebhookEvent } from '../jobs/processWebhooks';
+import { getUserLockHolder, withUserLock } from '../jobs/jobRunner';
+import { instanceId } from '../jobs/leader';
+import { applyCardPayments } from '../utils/payments';
+import { isLocalDate, localDatesBetween } from '../utils/localDate';
 
 const router = Router();
 
@@ -35,6 +41,12 @@ router.use(authenticateAdmin);
  *                   type: object
  *                 notificationJob:
  *                   type: object
+ *                 scheduler:
+ *                   type: object
+ *                   description: Instance currently holding the scheduler lease
+ *                 itemSyncHealth:
+ *                   type: object
+ *                   description: Per-sync-type success times and items currently failing
  *                 stats:
  *                   type: object
  */
@@ -62,12 +74,64 @@ router.get('/sync-status', async (req: AdminRequest, res) => {
       },
     });
 
+    const now = new Date();
+    const itemSyncHealth: Record<string, unknown> = {};
+    for (const syncType of ['transactions', 'balances', 'liabilities']) {
+      const lastSuccess = await prisma.plaidItemSyncState.aggregate({
+        where: { syncType },
+        _max: { lastSuccessAt: true },
+      });
+
+      itemSyncHealth[syncType] = {
+        lastSuccessTime: lastSuccess._max.lastSuccessAt?.toISOString() || null,
+        failingItems: await prisma.plaidItemSyncState.count({
+          where: { syncType, consecutiveFailures: { gt: 0 } },
+        }),
+        backingOffItems: await prisma.plaidItemSyncState.count({
+          where: { syncType, nextAttemptAt: { gt: now } },
+        }),
+      };
+    }
+
+    // Items with the longest failure streaks first
+    const failingStates = await prisma.plaidItemSyncState.findMany({
+      where: { consecutiveFailures: { gt: 0 } },
+      include: { plaidItem: { select: { itemId: true, userId: true, institutionName: true, status: true } } },
+      orderBy: { consecutiveFailures: 'desc' },
+      take: 50,
+    });
+
+    const lease = await prisma.schedulerLease.findUnique({
+      where: { name: 'scheduler' },
+    });
+
     res.json({
+      scheduler: {
+        leaderId: lease && lease.expiresAt > now ? lease.holderId : null,
+        leaseRenewedAt: lease?.renewedAt.toISOString() || null,
+        leaseExpiresAt: lease?.expiresAt.toISOString() || null,
+        thisInstance: instanceId,
+      },
       syncJob: {
         schedule: 'every 15 minutes',
         lastSyncTime: lastTransaction?.updatedAt.toISOString() || null,
         nextSyncTime: 'Calculated by cron scheduler',
       },
+      itemSyncHealth: {
+        ...itemSyncHealth,
+        failing: failingStates.map(state => ({
+          itemId: state.plaidItem.itemId,
+          userId: state.plaidItem.userId,
+          institutionName: state.plaidItem.institutionName,
+          status: state.plaidItem.status,
+          syncType: state.syncType,
+          consecutiveFailures: state.consecutiveFailures,
+          lastErrorCode: state.lastErrorCode,
+          lastAttemptAt: state.lastAttemptAt?.toISOString() || null,
+          lastSuccessAt: state.lastSuccessAt?.toISOString() || null,
+          nextAttemptAt: state.nextAttemptAt?.toISOString() || null,
+        })),
+      },
       notificationJob: {
         schedule: 'every minute',
         status: 'running',
@@ -84,12 +148,41 @@ router.get('/sync-status', async (req: AdminRequest, res) => {
         schedule: 'every hour at minute 0',
         status: 'running',
       },
+      accountRefreshJob: {
+        schedule: 'daily at 03:00 UTC',
+        status: 'running',
+      },
+      itemRemovalJob: {
+        schedule: 'every 30 minutes',
+        status: 'running',
+      },
+      webhookProcessingJob: {
+        schedule: 'every minute',
+        status: 'running',
+      },
+      backfillJob: {
+        schedule: 'every 5 minutes',
+        status: 'running',
+      },
+      liabilitiesSyncJob: {
+        schedule: 'every 6 hours at minute 30',
+        status: 'running',
+      },
       stats: {
         totalUsers: userCount,
         activePlaidItems: activeItemsCount,
         totalTransactions: await prisma.transaction.count(),
         totalDevices: await prisma.device.count(),
         totalBalanceSnapshots: await prisma.balanceSnapshot.count(),
+        totalCachedAccounts: await prisma.account.count(),
+        totalCreditLiabilities: await prisma.creditLiability.count(),
+        pendingItemRemovals: await prisma.plaidItemRemoval.count({ where: { status: 'pending' } }),
+        failedItemRemovals: await prisma.plaidItemRemoval.count({ where: { status: 'failed' } }),
+        pendingWebhookEvents: await prisma.webhookEvent.count({ where: { status: 'pending' } }),
+        failedWebhookEvents: await prisma.webhookEvent.count({ where: { status: 'failed' } }),
+        activeBackfills: await prisma.plaidItem.count({
+          where: { backfillStatus: { in: ['pending', 'waiting_for_history', 'waiting_for_accounts', 'computing_reports'] } },
+        }),
       },
     });
   } catch (error) {
@@ -124,6 +217,8 @@ router.get('/sync-status', async (req: AdminRequest, res) => {
  *         description: Sync triggered successfully
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Another job is already running for the user
  */
 router.post('/trigger-sync/:userId', async (req: AdminRequest, res) => {
   try {
@@ -144,8 +239,19 @@ router.post('/trigger-sync/:userId', async (req: AdminRequest, res) => {
       });
     }
 
-    // Trigger sync asynchronously (don't wait for completion)
-    syncUserTransactions(userId).catch(error => {
+    const lockHolder = getUserLockHolder(userId);
+    if (lockHolder) {
+      return res.status(409).json({
+        error: {
+          code: 'JOB_IN_PROGRESS',
+          message: `A ${lockHolder} job is already running for this user`,
+        },
+      });
+    }
+
+    // Trigger sync asynchronously (don't wait for completion); manual syncs ignore item backoff.
+    // The lock is taken synchronously, so nothing can grab it between the check above and here
+    withUserLock(userId, 'manual-sync', () => syncUserTransactions(userId, { ignoreBackoff: true })).catch(error => {
       logger.error('Error in manual sync trigger', { error, userId });
     });
 
@@ -189,6 +295,8 @@ router.post('/trigger-sync/:userId', async (req: AdminRequest, res) => {
  *         description: Balance sync triggered successfully
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Another job is already running for the user
  */
 router.post('/trigger-balance-sync/:userId', async (req: AdminRequest, res) => {
   try {
@@ -209,8 +317,18 @@ router.post('/trigger-balance-sync/:userId', async (req: AdminRequest, res) => {
       });
     }
 
-    // Trigger balance sync asynchronously (don't wait for completion)
-    syncUserBalances(userId).catch(error => {
+    const lockHolder = getUserLockHolder(userId);
+    if (lockHolder) {
+      return res.status(409).json({
+        error: {
+          code: 'JOB_IN_PROGRESS',
+          message: `A ${lockHolder} job is already running for this user`,
+        },
+      });
+    }
+
+    // Trigger balance sync asynchronously (don't wait for completion); manual syncs ignore item backoff
+    withUserLock(userId, 'manual-balance-sync', () => syncUserBalances(userId, { ignoreBackoff: true })).catch(error => {
       logger.error('Error in manual balance sync trigger', { error, userId });
     });
 
@@ -233,6 +351,412 @@ router.post('/trigger-balance-sync/:userId', async (req: AdminRequest, res) => {
   }
 });
 
+// Matches the longest history Plaid can backfill
+const MAX_REBUILD_DAYS = 730;
+
+// Rebuild a user's daily reports over a date range
+/**
+ * @swagger
+ * /admin/rebuild-reports/{userId}:
+ *   post:
+ *     summary: Recompute a user's daily reports for every day in a date range
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID to rebuild reports for
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [startDate, endDate]
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 description: First local date to rebuild (YYYY-MM-DD)
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Last local date to rebuild, inclusive (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Rebuild started
+ *       400:
+ *         description: Invalid date range
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Another job is already running for the user
+ */
+router.post('/rebuild-reports/:userId', async (req: AdminRequest, res) => {
+  try {
+    const { userId } = req.params;
+    const { startDate, endDate } = req.body || {};
+
+    if (!isLocalDate(startDate) || !isLocalDate(endDate)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'startDate and endDate are required in YYYY-MM-DD format',
+        },
+      });
+    }
+
+    const days = localDatesBetween(startDate, endDate).length;
+    if (days === 0 || days > MAX_REBUILD_DAYS) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `endDate must be on or after startDate, covering at most ${MAX_REBUILD_DAYS} days`,
+        },
+      });
+    }
+
+    // Verify user exists
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+    }
+
+    const lockHolder = getUserLockHolder(userId);
+    if (lockHolder) {
+      return res.status(409).json({
+        error: {
+          code: 'JOB_IN_PROGRESS',
+          message: `A ${lockHolder} job is already running for this user`,
+        },
+      });
+    }
+
+    // Rebuild asynchronously (don't wait for completion); rebuilt days may now be covered by a payment
+    withUserLock(userId, 'rebuild-reports', async () => {
+      await recomputeDailyReportsForRange(userId, startDate, endDate);
+      await applyCardPayments(userId);
+    }).catch(error => {
+      logger.error('Error rebuilding daily reports', { error, userId, startDate, endDate });
+    });
+
+    logger.info('Daily report rebuild triggered for user', { userId, email: user.email, startDate, endDate, days });
+
+    res.json({
+      success: true,
+      message: 'Daily report rebuild triggered for user',
+      userId,
+      startDate,
+      endDate,
+      days,
+    });
+  } catch (error) {
+    logger.error('Error triggering report rebuild', { error, userId: req.params.userId });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to trigger report rebuild',
+      },
+    });
+  }
+});
+
+/**
+ * Build a WebhookEvent filter from the itemId, webhookType, webhookCode and status query/body fields
+ */
+function webhookEventFilter(source: Record<string, unknown>) {
+  const where: { itemId?: string; webhookType?: string; webhookCode?: string; status?: string } = {};
+  if (typeof source.itemId === 'string' && source.itemId) where.itemId = source.itemId;
+  if (typeof source.webhookType === 'string' && source.webhookType) where.webhookType = source.webhookType;
+  if (typeof source.webhookCode === 'string' && source.webhookCode) where.webhookCode = source.webhookCode;
+  if (typeof source.status === 'string' && source.status) where.status = source.status;
+  return where;
+}
+
+/**
+ * @swagger
+ * /admin/webhook-events:
+ *   get:
+ *     summary: List stored Plaid webhook events
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: webhookType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: webhookCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processing, processed, failed]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook events, newest first
+ */
+router.get('/webhook-events', async (req: AdminRequest, res) => {
+  try {
+    const { limit = '50', offset = '0' } = req.query;
+    const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+    const offsetNum = parseInt(offset as string, 10) || 0;
+    const where = webhookEventFilter(req.query);
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        take: limitNum,
+        skip: offsetNum,
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    res.json({
+      events: events.map(event => ({
+        id: event.id,
+        itemId: event.itemId,
+        webhookType: event.webhookType,
+        webhookCode: event.webhookCode,
+        status: event.status,
+        attempts: event.attempts,
+        lastError: event.lastError,
+        receivedAt: event.receivedAt.toISOString(),
+        processedAt: event.processedAt?.toISOString() || null,
+        nextAttemptAt: event.nextAttemptAt.toISOString(),
+      })),
+      pagination: {
+        total,
+        limit: limitNum,
+        offset: offsetNum,
+        hasMore: offsetNum + limitNum < total,
+      },
+    });
+  } catch (error) {
+    logger.error('Error listing webhook events', { error });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to list webhook events',
+      },
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/webhook-events/{id}:
+ *   get:
+ *     summary: Inspect a stored Plaid webhook event, including its payload
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook event
+ *       404:
+ *         description: Webhook event not found
+ */
+router.get('/webhook-events/:id', async (req: AdminRequest, res) => {
+  try {
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!event) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Webhook event not found',
+        },
+      });
+    }
+
+    res.json({
+      id: event.id,
+      itemId: event.itemId,
+      webhookType: event.webhookType,
+      webhookCode: event.webhookCode,
+      status: event.status,
+      attempts: event.attempts,
+      lastError: event.lastError,
+      receivedAt: event.receivedAt.toISOString(),
+      processedAt: event.processedAt?.toISOString() || null,
+      nextAttemptAt: event.nextAttemptAt.toISOString(),
+      payload: JSON.parse(event.payload),
+    });
+  } catch (error) {
+    logger.error('Error getting webhook event', { error, webhookEventId: req.params.id });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get webhook event',
+      },
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/webhook-events/{id}/replay:
+ *   post:
+ *     summary: Process a stored Plaid webhook event again
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event replayed; the response carries its new status
+ *       404:
+ *         description: Webhook event not found
+ */
+router.post('/webhook-events/:id/replay', async (req: AdminRequest, res) => {
+  try {
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Webhook event not found',
+        },
+      });
+    }
+
+    const result = await replayWebhookEvent(existing.id);
+
+    res.json({
+      success: true,
+      id: existing.id,
+      status: result?.status || 'processing',
+      lastError: result?.lastError || null,
+    });
+  } catch (error) {
+    logger.error('Error replaying webhook event', { error, webhookEventId: req.params.id });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to replay webhook event',
+      },
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/webhook-events/replay:
+ *   post:
+ *     summary: Queue all matching Plaid webhook events for another run
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *               webhookType:
+ *                 type: string
+ *               webhookCode:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Matching events were queued for the webhook worker
+ *       400:
+ *         description: Neither itemId nor webhookType was given
+ */
+router.post('/webhook-events/replay', async (req: AdminRequest, res) => {
+  try {
+    const where = webhookEventFilter(req.body || {});
+
+    if (!where.itemId && !where.webhookType) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'itemId or webhookType is required',
+        },
+      });
+    }
+
+    // Queue rather than process inline; the webhook worker picks them up within a minute
+    const { count } = await prisma.webhookEvent.updateMany({
+      where,
+      data: {
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+        processedAt: null,
+      },
+    });
+
+    logger.info('Queued Plaid webhook events for replay', { ...where, count });
+
+    res.json({
+      success: true,
+      queued: count,
+    });
+  } catch (error) {
+    logger.error('Error replaying webhook events', { error });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to replay webhook events',
+      },
+    });
+  }
+});
+
 // Get list of users (basic stats only)
 router.get('/users', async (req: AdminRequest, res) => {
   try {
@@ -4,6 +4,7 @@ import { hashPassword, verifyPassword, generateToken, authenticateToken } from '
 import { AuthRequest } from '../auth';
 import logger from '../utils/logger';
 import { validate, validators } from '../middleware/validation';
+import { revokePlaidItem } from '../jobs/removePlaidItems';
 
 const router = Router();
 
@@ -249,12 +250,22 @@ router.delete('/account', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
 
+    // Revoke every linked item with Plaid before the local rows cascade away
+    // Failed revocations stay queued for the removal job to retry
+    const plaidItems = await prisma.plaidItem.findMany({
+      where: { userId },
+    });
+
+    for (const plaidItem of plaidItems) {
+      await revokePlaidItem(plaidItem);
+    }
+
     // Delete user - all related data cascades automatically
     await prisma.user.delete({
       where: { id: userId },
     });
 
-    logger.info('User account deleted', { userId });
+    logger.info('User account deleted', { userId, revokedItemCount: plaidItems.length });
     res.json({ success: true });
   } catch (error) {
     logger.error('Delete account error', { error, userId: req.userId });
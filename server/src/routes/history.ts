@@ -2,6 +2,7 @@ import { Router } from 'express';
 import prisma from '../db';
 import { authenticateToken, AuthRequest } from '../auth';
 import logger from '../utils/logger';
+import { describePaymentStatus } from '../utils/paymentStatus';
 
 const router = Router();
 
@@ -17,6 +18,11 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       where: { userId },
       orderBy: { date: 'desc' },
       take: limitNum,
+      include: {
+        accounts: true,
+        currencies: true,
+        payments: { include: { transaction: { select: { name: true, date: true } } } },
+      },
     });
 
     logger.info('History request', { userId, reportCount: reports.length });
@@ -27,8 +33,41 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       return {
         date: date.toISOString(),
         totalAmount: Number(report.totalAmount),
+        purchasesAmount: Number(report.purchasesAmount),
+        refundsAmount: Number(report.refundsAmount),
+        amountOwed: Number(report.amountOwed),
         transactionCount: report.transactionCount,
+        currency: report.currency,
         markedPaid: !!report.markedPaidAt,
+        ...describePaymentStatus(report),
+        // Amount owed when the day was marked as paid; null for days paid before this was recorded
+        paidAmount: report.paidAmount !== null ? Number(report.paidAmount) : null,
+        // Card payments that marked the day as paid automatically
+        paidBy: report.payments.flatMap(payment => payment.transaction
+          ? [{
+              name: payment.transaction.name,
+              date: payment.transaction.date.toISOString(),
+              amount: Number(payment.amount),
+            }]
+          : []),
+        // Every payment recorded for the day, card payments and amounts the user entered
+        payments: report.payments.map(payment => ({
+          source: payment.source,
+          amount: Number(payment.amount),
+          recordedAt: payment.createdAt.toISOString(),
+        })),
+        // Per-card breakdown; empty for reports computed before cards were tracked separately
+        accounts: report.accounts.map(account => ({
+          accountId: account.accountId,
+          totalAmount: Number(account.totalAmount),
+          transactionCount: account.transactionCount,
+        })),
+        currencies: report.currencies.map(entry => ({
+          currency: entry.currency,
+          totalAmount: Number(entry.totalAmount),
+          transactionCount: entry.transactionCount,
+          converted: entry.converted,
+        })),
       };
     });
 
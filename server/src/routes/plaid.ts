@@ -1,10 +1,18 @@
 import { Router } from 'express';
 import express from 'express';
-import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
+import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode, AccountBase, AccountType, AccountSubtype } from 'plaid';
 import prisma, { encryptPlaidToken, decryptPlaidToken } from '../db';
 import { authenticateToken, AuthRequest } from '../auth';
 import logger from '../utils/logger';
+import { env } from '../config/env';
 import { validate, validators } from '../middleware/validation';
+import { cacheItemAccounts, refreshItemAccounts } from '../jobs/syncAccounts';
+import { scheduleItemSync } from '../jobs/syncTransactions';
+import { syncItemLiabilities } from '../jobs/syncLiabilities';
+import { queueItemBackfill, runItemBackfill } from '../jobs/backfillItems';
+import { revokePlaidItem } from '../jobs/removePlaidItems';
+import { recordWebhookEvent, processWebhookEvent } from '../jobs/processWebhooks';
+import { setTrackedCreditAccounts, untrackCreditAccounts } from '../utils/trackedAccounts';
 
 const router = Router();
 
@@ -23,14 +31,46 @@ const plaidClient = new PlaidApi(configuration);
 
 const isTestMode = process.env.TEST_MODE === 'true';
 
+// Accounts returned for the mock preview item in test mode
+const MOCK_ACCOUNTS: AccountBase[] = [
+  {
+    account_id: 'mock-credit-account-123',
+    name: 'Chase Sapphire Preferred',
+    official_name: null,
+    type: AccountType.Credit,
+    subtype: AccountSubtype.CreditCard,
+    mask: '1234',
+    balances: { available: null, current: null, limit: null, iso_currency_code: 'USD', unofficial_currency_code: null },
+  },
+  {
+    account_id: 'mock-checking-account-456',
+    name: 'Chase Total Checking',
+    official_name: null,
+    type: AccountType.Depository,
+    subtype: AccountSubtype.Checking,
+    mask: '5678',
+    balances: { available: null, current: null, limit: null, iso_currency_code: 'USD', unofficial_currency_code: null },
+  },
+];
+
 /**
  * @swagger
  * /plaid/create-link-token:
  *   post:
- *     summary: Create Plaid Link token for connecting bank account
+ *     summary: Create Plaid Link token for connecting or repairing a bank account
  *     tags: [Plaid]
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *                 description: Plaid item ID to repair. Returns an update-mode link token for that item.
  *     responses:
  *       200:
  *         description: Link token created
@@ -42,15 +82,52 @@ const isTestMode = process.env.TEST_MODE === 'true';
  *                 linkToken:
  *                   type: string
  *                   description: Plaid Link token to use in Plaid Link SDK
+ *       404:
+ *         description: Plaid item not found
  */
-router.post('/create-link-token', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/create-link-token', authenticateToken, validate([
+  validators.linkItemId,
+]), async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
+    const { itemId } = req.body;
+
+    // Update mode: the item must belong to the user
+    const plaidItem = itemId
+      ? await prisma.plaidItem.findFirst({
+          where: {
+            itemId,
+            userId,
+          },
+        })
+      : null;
+
+    if (itemId && !plaidItem) {
+      return res.status(404).json({ error: 'Plaid item not found' });
+    }
 
     // Test mode: return mock token
     if (isTestMode) {
-      logger.debug('[TEST MODE] Returning mock link token', { userId });
-      return res.json({ linkToken: 'mock-link-token-for-testing' });
+      logger.debug('[TEST MODE] Returning mock link token', { userId, itemId });
+      return res.json({
+        linkToken: plaidItem ? 'mock-update-link-token-for-testing' : 'mock-link-token-for-testing',
+      });
+    }
+
+    if (plaidItem) {
+      // Update mode re-authenticates the existing item, so products must be omitted
+      const response = await plaidClient.linkTokenCreate({
+        user: {
+          client_user_id: userId,
+        },
+        client_name: 'DailyPaydown',
+        access_token: decryptPlaidToken(plaidItem.accessTokenEncrypted),
+        country_codes: [CountryCode.Us],
+        language: 'en',
+      });
+
+      logger.info('Created update-mode link token', { userId, itemId });
+      return res.json({ linkToken: response.data.link_token });
     }
 
     const response = await plaidClient.linkTokenCreate({
@@ -59,6 +136,11 @@ router.post('/create-link-token', authenticateToken, async (req: AuthRequest, re
       },
       client_name: 'DailyPaydown',
       products: [Products.Transactions, Products.Auth],
+      // Statement balance and due date come from Liabilities when the institution supports it
+      required_if_supported_products: [Products.Liabilities],
+      transactions: {
+        days_requested: env.plaidTransactionsDaysRequested,
+      },
       country_codes: [CountryCode.Us],
       language: 'en',
     });
@@ -183,25 +265,45 @@ router.post('/exchange-public-token', authenticateToken, validate([
       where: { itemId },
     });
 
-    if (existingItem) {
-      // Update existing item
-      await prisma.plaidItem.update({
-        where: { itemId },
-        data: {
-          accessTokenEncrypted: encryptedToken,
-          institutionName,
-          updatedAt: new Date(),
-        },
-      });
-    } else {
-      // Create new item
-      await prisma.plaidItem.create({
-        data: {
-          userId,
-          accessTokenEncrypted: encryptedToken,
-          itemId,
-          institutionName,
-        },
+    const plaidItem = existingItem
+      ? await prisma.plaidItem.update({
+          // Update existing item
+          where: { itemId },
+          data: {
+            accessTokenEncrypted: encryptedToken,
+            institutionName,
+            updatedAt: new Date(),
+          },
+        })
+      : await prisma.plaidItem.create({
+          // Create new item
+          data: {
+            userId,
+            accessTokenEncrypted: encryptedToken,
+            itemId,
+            institutionName,
+          },
+        });
+
+    // Cache the item's accounts so account lookups don't need to call Plaid
+    try {
+      await refreshItemAccounts(plaidItem);
+    } catch (error) {
+      logger.warn('Failed to cache accounts for new Plaid item', { error, itemId, userId });
+    }
+
+    // Liabilities are usually ready at link time; the scheduled sync retries if not
+    try {
+      await syncItemLiabilities(plaidItem);
+    } catch (error) {
+      logger.warn('Failed to sync liabilities for new Plaid item', { error, itemId, userId });
+    }
+
+    // Backfill history for newly linked items in the background; the backfill job picks up whatever this first run can't finish
+    if (!existingItem) {
+      await queueItemBackfill(plaidItem.id);
+      runItemBackfill(plaidItem.id).catch(error => {
+        logger.debug('Initial backfill run deferred to the backfill job', { error, itemId, userId });
       });
     }
 
@@ -227,6 +329,12 @@ router.post('/exchange-public-token', authenticateToken, validate([
  *         schema:
  *           type: string
  *         description: Plaid item ID
+ *       - in: query
+ *         name: refresh
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Refresh the cached accounts from Plaid before responding
  *     responses:
  *       200:
  *         description: List of accounts
@@ -268,12 +376,12 @@ router.get('/accounts', authenticateToken, async (req: AuthRequest, res) => {
       const mockInstitutionName = 'Test Bank (Mock)';
       const encryptedToken = encryptPlaidToken('mock-access-token-for-testing');
       
-      const existingItem = await prisma.plaidItem.findUnique({
+      let mockItem = await prisma.plaidItem.findUnique({
         where: { itemId },
       });
 
-      if (!existingItem) {
-        await prisma.plaidItem.create({
+      if (!mockItem) {
+        mockItem = await prisma.plaidItem.create({
           data: {
             userId,
             accessTokenEncrypted: encryptedToken,
@@ -284,23 +392,16 @@ router.get('/accounts', authenticateToken, async (req: AuthRequest, res) => {
         logger.debug('[TEST MODE] Created mock PlaidItem', { userId, itemId });
       }
 
+      await cacheItemAccounts(mockItem, MOCK_ACCOUNTS);
+
       return res.json({
-        accounts: [
-          {
-            accountId: 'mock-credit-account-123',
-            name: 'Chase Sapphire Preferred',
-            type: 'credit',
-            subtype: 'credit card',
-            mask: '1234',
-          },
-          {
-            accountId: 'mock-checking-account-456',
-            name: 'Chase Total Checking',
-            type: 'depository',
-            subtype: 'checking',
-            mask: '5678',
-          },
-        ],
+        accounts: MOCK_ACCOUNTS.map(account => ({
+          accountId: account.account_id,
+          name: account.name,
+          type: account.type,
+          subtype: account.subtype,
+          mask: account.mask,
+        })),
       });
     }
 
@@ -316,17 +417,23 @@ router.get('/accounts', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Plaid item not found' });
     }
 
-    // Decrypt access token
-    const accessToken = decryptPlaidToken(plaidItem.accessTokenEncrypted);
-
-    // Get accounts
-    const response = await plaidClient.accountsGet({
-      access_token: accessToken,
+    // Serve from the local account cache, refreshing from Plaid when asked or when nothing is cached yet
+    let accounts = await prisma.account.findMany({
+      where: { plaidItemId: plaidItem.id },
+      orderBy: { name: 'asc' },
     });
 
+    if (req.query.refresh === 'true' || accounts.length === 0) {
+      await refreshItemAccounts(plaidItem);
+      accounts = await prisma.account.findMany({
+        where: { plaidItemId: plaidItem.id },
+        orderBy: { name: 'asc' },
+      });
+    }
+
     res.json({
-      accounts: response.data.accounts.map(account => ({
-        accountId: account.account_id,
+      accounts: accounts.map(account => ({
+        accountId: account.accountId,
         name: account.name,
         type: account.type,
         subtype: account.subtype,
@@ -339,33 +446,72 @@ router.get('/accounts', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Select accounts (credit card and checking)
+/**
+ * @swagger
+ * /plaid/select-accounts:
+ *   post:
+ *     summary: Select the tracked credit cards and the checking account
+ *     tags: [Plaid]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               creditAccountIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Replaces the set of tracked credit cards
+ *               creditAccountId:
+ *                 type: string
+ *                 description: Single-card form, equivalent to creditAccountIds with one entry
+ *               checkingAccountId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Accounts selected
+ *       400:
+ *         description: No account provided
+ */
 router.post('/select-accounts', authenticateToken, validate([
   validators.creditAccountId,
+  validators.creditAccountIds,
   validators.checkingAccountId,
 ]), async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
-    const { creditAccountId, checkingAccountId } = req.body;
+    const { creditAccountId, creditAccountIds, checkingAccountId } = req.body;
 
-    if (!creditAccountId && !checkingAccountId) {
+    if (!creditAccountId && !creditAccountIds && !checkingAccountId) {
       return res.status(400).json({ error: 'At least one account ID is required' });
     }
 
-    // Upsert account selection
-    await prisma.accountSelection.upsert({
-      where: { userId },
-      update: {
-        creditAccountId: creditAccountId || undefined,
-        checkingAccountId: checkingAccountId || undefined,
-        updatedAt: new Date(),
-      },
-      create: {
-        userId,
-        creditAccountId: creditAccountId || null,
-        checkingAccountId: checkingAccountId || null,
-      },
-    });
+    // Older clients send a single card; treat it as the whole tracked set
+    const trackedIds: string[] | undefined = creditAccountIds
+      ? Array.from(new Set<string>(creditAccountIds.map((id: string) => id.trim())))
+      : creditAccountId ? [creditAccountId] : undefined;
+
+    if (trackedIds) {
+      await setTrackedCreditAccounts(userId, trackedIds);
+    }
+
+    if (checkingAccountId) {
+      await prisma.accountSelection.upsert({
+        where: { userId },
+        update: {
+          checkingAccountId,
+          updatedAt: new Date(),
+        },
+        create: {
+          userId,
+          checkingAccountId,
+        },
+      });
+    }
 
     res.json({ success: true });
   } catch (error: any) {
@@ -374,6 +520,150 @@ router.post('/select-accounts', authenticateToken, validate([
   }
 });
 
+/**
+ * @swagger
+ * /plaid/tracked-accounts:
+ *   get:
+ *     summary: List the credit cards tracked for the authenticated user
+ *     tags: [Plaid]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tracked credit cards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 accounts:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       accountId:
+ *                         type: string
+ *                       enabled:
+ *                         type: boolean
+ *                       name:
+ *                         type: string
+ *                         nullable: true
+ *                       mask:
+ *                         type: string
+ *                         nullable: true
+ *                       itemId:
+ *                         type: string
+ *                         nullable: true
+ */
+router.get('/tracked-accounts', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+
+    let tracked = await prisma.trackedAccount.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Users who picked a single card before multi-card tracking have no rows yet
+    if (tracked.length === 0) {
+      const accountSelection = await prisma.accountSelection.findUnique({
+        where: { userId },
+      });
+
+      if (accountSelection?.creditAccountId) {
+        await setTrackedCreditAccounts(userId, [accountSelection.creditAccountId]);
+        tracked = await prisma.trackedAccount.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+        });
+      }
+    }
+
+    const cached = await prisma.account.findMany({
+      where: { userId, accountId: { in: tracked.map(t => t.accountId) } },
+      include: { plaidItem: { select: { itemId: true } } },
+    });
+    const cachedById = new Map(cached.map(account => [account.accountId, account]));
+
+    res.json({
+      accounts: tracked.map(t => {
+        const account = cachedById.get(t.accountId);
+        return {
+          accountId: t.accountId,
+          enabled: t.enabled,
+          name: account?.name || null,
+          mask: account?.mask || null,
+          itemId: account?.plaidItem.itemId || null,
+        };
+      }),
+    });
+  } catch (error: any) {
+    logger.error('Get tracked accounts error', { error, userId: req.userId });
+    res.status(500).json({ error: 'Failed to get tracked accounts', details: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /plaid/tracked-accounts/{accountId}:
+ *   patch:
+ *     summary: Turn a tracked credit card on or off
+ *     tags: [Plaid]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plaid account ID of the tracked card
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Toggle updated
+ *       404:
+ *         description: Card is not tracked
+ */
+router.patch('/tracked-accounts/:accountId', authenticateToken, validate([
+  validators.accountIdParam,
+  validators.enabled,
+]), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const { accountId } = req.params;
+    const { enabled } = req.body;
+
+    const tracked = await prisma.trackedAccount.findUnique({
+      where: { userId_accountId: { userId, accountId } },
+    });
+
+    if (!tracked) {
+      return res.status(404).json({ error: 'Tracked account not found' });
+    }
+
+    await prisma.trackedAccount.update({
+      where: { id: tracked.id },
+      data: { enabled },
+    });
+
+    logger.info('Updated tracked account', { userId, accountId, enabled });
+    res.json({ success: true, accountId, enabled });
+  } catch (error: any) {
+    logger.error('Update tracked account error', { error, userId: req.userId, accountId: req.params.accountId });
+    res.status(500).json({ error: 'Failed to update tracked account', details: error.message });
+  }
+});
+
 /**
  * @swagger
  * /plaid/items:
@@ -403,6 +693,10 @@ router.post('/select-accounts', authenticateToken, validate([
  *                         type: string
  *                       status:
  *                         type: string
+ *                       backfill:
+ *                         type: object
+ *                         nullable: true
+ *                         description: Historical backfill progress (status, daysCompleted, daysTotal, ...)
  *                       createdAt:
  *                         type: string
  *                         format: date-time
@@ -418,6 +712,13 @@ router.get('/items', authenticateToken, async (req: AuthRequest, res) => {
         itemId: true,
         institutionName: true,
         status: true,
+        backfillStatus: true,
+        backfillDaysRequested: true,
+        backfillDaysTotal: true,
+        backfillDaysCompleted: true,
+        backfillStartedAt: true,
+        backfillCompletedAt: true,
+        backfillError: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -432,6 +733,18 @@ router.get('/items', authenticateToken, async (req: AuthRequest, res) => {
         itemId: item.itemId,
         institutionName: item.institutionName,
         status: item.status || 'active',
+        // Null for items linked before backfill existed
+        backfill: item.backfillStatus
+          ? {
+              status: item.backfillStatus,
+              daysRequested: item.backfillDaysRequested,
+              daysCompleted: item.backfillDaysCompleted,
+              daysTotal: item.backfillDaysTotal,
+              startedAt: item.backfillStartedAt?.toISOString() || null,
+              completedAt: item.backfillCompletedAt?.toISOString() || null,
+              error: item.backfillError,
+            }
+          : null,
         createdAt: item.createdAt.toISOString(),
         updatedAt: item.updatedAt.toISOString(),
       })),
@@ -442,6 +755,83 @@ router.get('/items', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /plaid/items/{itemId}/relink-complete:
+ *   post:
+ *     summary: Mark a Plaid item as repaired after a successful update-mode Link session
+ *     tags: [Plaid]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plaid item ID
+ *     responses:
+ *       200:
+ *         description: Item reactivated and a fresh sync was triggered
+ *       404:
+ *         description: Plaid item not found
+ *       409:
+ *         description: Plaid item has been revoked and must be linked again
+ */
+router.post('/items/:itemId/relink-complete', authenticateToken, validate([
+  validators.itemId,
+]), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const { itemId } = req.params;
+
+    const plaidItem = await prisma.plaidItem.findFirst({
+      where: {
+        itemId,
+        userId,
+      },
+    });
+
+    if (!plaidItem) {
+      return res.status(404).json({ error: 'Plaid item not found' });
+    }
+
+    // A revoked item's access token was removed through /item/remove; only linking it anew brings it back
+    if (plaidItem.status === 'revoked') {
+      return res.status(409).json({ error: 'Plaid item has been revoked and must be linked again' });
+    }
+
+    // Only items waiting on the user (expired login or error) are reactivated
+    const updatedItem = plaidItem.status === 'expired' || plaidItem.status === 'error'
+      ? await prisma.plaidItem.update({
+          where: { id: plaidItem.id },
+          data: {
+            status: 'active',
+            lastError: null,
+            updatedAt: new Date(),
+          },
+        })
+      : plaidItem;
+
+    logger.info('Plaid item repaired via update mode', { itemId, userId, previousStatus: plaidItem.status });
+
+    if (!isTestMode) {
+      // Refresh accounts and sync in the background (don't block the response)
+      // The sync goes through the item sync queue so it waits for any job already running for the user
+      refreshItemAccounts(updatedItem)
+        .catch(error => {
+          logger.warn('Failed to refresh accounts after relink', { error, itemId, userId });
+        })
+        .then(() => scheduleItemSync(updatedItem.id));
+    }
+
+    res.json({ success: true, itemId, status: updatedItem.status });
+  } catch (error: any) {
+    logger.error('Relink complete error', { error, userId: req.userId, itemId: req.params.itemId });
+    res.status(500).json({ error: 'Failed to complete relink', details: error.message });
+  }
+});
+
 // Delete/disconnect a Plaid item
 router.delete('/items/:itemId', authenticateToken, validate([
   validators.itemId,
@@ -469,108 +859,89 @@ router.delete('/items/:itemId', authenticateToken, validate([
       return res.status(404).json({ error: 'Plaid item not found' });
     }
 
-    // Check if this item's accounts are selected in AccountSelection
-    const accountSelection = plaidItem.user.accountSelection;
-    
-    if (accountSelection) {
-      // Get accounts for this item to check if they're selected
-      try {
-        const accessToken = decryptPlaidToken(plaidItem.accessTokenEncrypted);
-        const accountsResponse = await plaidClient.accountsGet({
-          access_token: accessToken,
-        });
+    // Untrack only the cards that belonged to this item, using the cached accounts
+    const itemAccounts = await prisma.account.findMany({
+      where: { plaidItemId: plaidItem.id },
+      select: { accountId: true },
+    });
+    const accountIds = itemAccounts.map(acc => acc.accountId);
 
-        const accountIds = accountsResponse.data.accounts.map((acc: any) => acc.account_id);
-        const hasSelectedAccounts = 
-          (accountSelection.creditAccountId && accountIds.includes(accountSelection.creditAccountId)) ||
-          (accountSelection.checkingAccountId && accountIds.includes(accountSelection.checkingAccountId));
-
-        if (hasSelectedAccounts) {
-          // Clear account selection if it references accounts from this item
-          await prisma.accountSelection.update({
-            where: { userId },
-            data: {
-              creditAccountId: accountSelection.creditAccountId && accountIds.includes(accountSelection.creditAccountId)
-                ? null
-                : accountSelection.creditAccountId,
-              checkingAccountId: accountSelection.checkingAccountId && accountIds.includes(accountSelection.checkingAccountId)
-                ? null
-                : accountSelection.checkingAccountId,
-              updatedAt: new Date(),
-            },
-          });
-        }
-      } catch (error) {
-        // If we can't decrypt or get accounts, still proceed with deletion
-        // but try to clear account selection if IDs match (best effort)
-        logger.warn('Error getting accounts before deleting item, proceeding with deletion', { 
-          error, 
-          itemId, 
-          userId 
-        });
-        
-        // Clear account selection as a safety measure
-        if (accountSelection) {
-          await prisma.accountSelection.update({
-            where: { userId },
-            data: {
-              creditAccountId: null,
-              checkingAccountId: null,
-              updatedAt: new Date(),
-            },
-          });
-        }
-      }
+    await untrackCreditAccounts(userId, accountIds);
+
+    // Clear the checking account if it came from this item
+    const accountSelection = plaidItem.user.accountSelection;
+    if (accountSelection?.checkingAccountId && accountIds.includes(accountSelection.checkingAccountId)) {
+      await prisma.accountSelection.update({
+        where: { userId },
+        data: {
+          checkingAccountId: null,
+          updatedAt: new Date(),
+        },
+      });
     }
 
+    // Revoke the access token with Plaid; failures stay queued for the removal job to retry
+    const removal = await revokePlaidItem(plaidItem);
+
     // Delete the PlaidItem (cascades will handle related data)
     await prisma.plaidItem.delete({
       where: { id: plaidItem.id },
     });
 
-    logger.info('Deleted Plaid item', { itemId, userId });
-    res.json({ success: true });
+    logger.info('Deleted Plaid item', { itemId, userId, plaidRemovalStatus: removal.status });
+    res.json({ success: true, plaidRemovalStatus: removal.status });
   } catch (error: any) {
     logger.error('Delete Plaid item error', { error, userId: req.userId, itemId: req.params.itemId });
     res.status(500).json({ error: 'Failed to delete Plaid item', details: error.message });
   }
 });
 
-// Plaid webhook endpoint (no auth required, but verified by signature)
-// Note: This route should be registered before express.json() middleware processes the body
-// For now, we'll use the parsed body and note that signature verification may need raw body
+// Plaid webhook endpoint (no auth required, but verified by the Plaid-Verification JWT)
+// The raw body is needed to check the body hash, so index.ts parses this path with
+// express.raw() before the global express.json() middleware runs
 router.post('/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
   try {
-    const signature = req.headers['plaid-signature'] as string;
-    
-    if (!signature) {
-      logger.warn('Plaid webhook received without signature');
-      return res.status(400).json({ error: 'Missing signature' });
-    }
+    const verificationHeader = req.headers['plaid-verification'] as string | undefined;
 
-    // Get raw body as Buffer for signature verification
-    const rawBody = req.body as Buffer;
-    const rawBodyString = rawBody.toString('utf-8');
+    const rawBodyString = Buffer.isBuffer(req.body) ? req.body.toString('utf-8') : '';
 
     // Verify webhook signature
-    const { verifyWebhookSignature, handlePlaidWebhook } = await import('../utils/plaidWebhook');
+    const { verifyWebhookSignature } = await import('../utils/plaidWebhook');
     
-    const isValid = verifyWebhookSignature(rawBodyString, signature);
+    const isValid = await verifyWebhookSignature(rawBodyString, verificationHeader);
     
     if (!isValid) {
-      logger.warn('Invalid Plaid webhook signature', { 
-        signature: signature.substring(0, 20) + '...' 
-      });
+      logger.warn('Invalid Plaid webhook signature', { hasVerificationHeader: !!verificationHeader });
       return res.status(401).json({ error: 'Invalid signature' });
     }
 
     // Parse body for processing
-    const webhookData = JSON.parse(rawBodyString);
+    let webhookData;
+    try {
+      webhookData = JSON.parse(rawBodyString);
+    } catch (parseError) {
+      logger.warn('Plaid webhook body is not valid JSON', { error: (parseError as Error).message });
+      return res.status(400).json({ error: 'Invalid webhook body' });
+    }
 
-    // Handle webhook asynchronously (don't block response)
-    handlePlaidWebhook(webhookData).catch(error => {
-      logger.error('Error handling Plaid webhook', { error, webhook: webhookData });
-    });
+    // Store the event before acknowledging so a processing failure can be retried
+    const { event, duplicate } = await recordWebhookEvent(rawBodyString, webhookData);
+
+    if (duplicate) {
+      logger.info('Duplicate Plaid webhook ignored', { webhookEventId: event.id, status: event.status });
+      return res.status(200).json({ status: 'duplicate' });
+    }
+
+    // An API-only process leaves the event to the worker's webhook job, so syncs never
+    // run here alongside the worker's; the user locks only hold within one process
+    if (env.processRole === 'api') {
+      logger.debug('Plaid webhook queued for the worker', { webhookEventId: event.id });
+    } else {
+      // Handle webhook asynchronously (don't block response); failures stay queued for the worker
+      processWebhookEvent(event).catch(error => {
+        logger.error('Error handling Plaid webhook', { error, webhookEventId: event.id });
+      });
+    }
 
     // Respond immediately to Plaid
     res.status(200).json({ status: 'ok' });
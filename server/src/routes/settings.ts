@@ -3,6 +3,9 @@ import prisma from '../db';
 import { authenticateToken, AuthRequest } from '../auth';
 import logger from '../utils/logger';
 import { validate, validators } from '../middleware/validation';
+import { getTrackedCreditAccountIds, setTrackedCreditAccounts } from '../utils/trackedAccounts';
+import { applyCardPayments } from '../utils/payments';
+import { recomputeUnpaidDailyReports } from '../jobs/computeDailyReports';
 
 const router = Router();
 
@@ -33,9 +36,26 @@ const router = Router();
  *                 goal:
  *                   type: string
  *                   nullable: true
+ *                 homeCurrency:
+ *                   type: string
+ *                   example: "USD"
+ *                 paymentReminderDays:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Days before a card's due date to send a payment reminder; null when reminders are off
+ *                   example: 3
+ *                 refundsReduceOwed:
+ *                   type: boolean
+ *                   description: Whether refunds and statement credits reduce the amount owed for the day
  *                 creditAccountId:
  *                   type: string
  *                   nullable: true
+ *                   description: First tracked credit card, kept for single-card clients
+ *                 creditAccountIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Tracked credit cards currently counted in totals
  *                 checkingAccountId:
  *                   type: string
  *                   nullable: true
@@ -50,6 +70,9 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
         notificationTime: true,
         timezone: true,
         goal: true,
+        homeCurrency: true,
+        paymentReminderDays: true,
+        refundsReduceOwed: true,
       },
     });
 
@@ -69,7 +92,11 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       notificationTime: user.notificationTime,
       timezone: user.timezone,
       goal: user.goal,
+      homeCurrency: user.homeCurrency,
+      paymentReminderDays: user.paymentReminderDays,
+      refundsReduceOwed: user.refundsReduceOwed,
       creditAccountId: accountSelection?.creditAccountId || null,
+      creditAccountIds: await getTrackedCreditAccountIds(userId),
       checkingAccountId: accountSelection?.checkingAccountId || null,
     });
   } catch (error) {
@@ -102,6 +129,19 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
  *                 example: "America/New_York"
  *               goal:
  *                 type: string
+ *               homeCurrency:
+ *                 type: string
+ *                 pattern: '^[A-Z]{3}$'
+ *                 example: "EUR"
+ *               paymentReminderDays:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 30
+ *                 nullable: true
+ *                 description: Days before a card's due date to send a payment reminder; null turns reminders off
+ *               refundsReduceOwed:
+ *                 type: boolean
+ *                 description: Whether refunds and statement credits reduce the amount owed for the day
  *               creditAccountId:
  *                 type: string
  *               checkingAccountId:
@@ -121,38 +161,72 @@ router.patch('/', authenticateToken, validate([
   validators.notificationTime,
   validators.timezone,
   validators.goal,
+  validators.homeCurrency,
+  validators.paymentReminderDays,
+  validators.refundsReduceOwed,
   validators.creditAccountId,
   validators.checkingAccountId,
 ]), async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
-    const { notificationTime, timezone, goal, creditAccountId, checkingAccountId } = req.body;
+    const {
+      notificationTime,
+      timezone,
+      goal,
+      homeCurrency,
+      paymentReminderDays,
+      refundsReduceOwed,
+      creditAccountId,
+      checkingAccountId,
+    } = req.body;
 
     // Update user settings
     const updateData: any = {};
     if (notificationTime !== undefined) updateData.notificationTime = notificationTime;
     if (timezone !== undefined) updateData.timezone = timezone;
     if (goal !== undefined) updateData.goal = goal;
+    if (homeCurrency !== undefined) updateData.homeCurrency = homeCurrency;
+    if (paymentReminderDays !== undefined) updateData.paymentReminderDays = paymentReminderDays;
+    if (refundsReduceOwed !== undefined) updateData.refundsReduceOwed = refundsReduceOwed;
 
     if (Object.keys(updateData).length > 0) {
+      const previous = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { homeCurrency: true, refundsReduceOwed: true },
+      });
+
       await prisma.user.update({
         where: { id: userId },
         data: updateData,
       });
+
+      // Unpaid days are owed in the home currency and by the refunds setting, so they follow
+      // the change; otherwise payment matching and the unpaid balance would mix old and new
+      const changesAmountOwed =
+        (homeCurrency !== undefined && homeCurrency !== previous?.homeCurrency) ||
+        (refundsReduceOwed !== undefined && refundsReduceOwed !== previous?.refundsReduceOwed);
+      if (changesAmountOwed) {
+        const recomputedDays = await recomputeUnpaidDailyReports(userId);
+        await applyCardPayments(userId);
+        logger.info('Recomputed unpaid days after a settings change', { userId, recomputedDays });
+      }
+    }
+
+    // A single credit account from settings replaces the tracked set
+    if (creditAccountId !== undefined) {
+      await setTrackedCreditAccounts(userId, [creditAccountId]);
     }
 
-    // Update account selection if provided
-    if (creditAccountId !== undefined || checkingAccountId !== undefined) {
+    // Update checking account selection if provided
+    if (checkingAccountId !== undefined) {
       await prisma.accountSelection.upsert({
         where: { userId },
         update: {
-          creditAccountId: creditAccountId !== undefined ? creditAccountId : undefined,
-          checkingAccountId: checkingAccountId !== undefined ? checkingAccountId : undefined,
+          checkingAccountId,
           updatedAt: new Date(),
         },
         create: {
           userId,
-          creditAccountId: creditAccountId || null,
           checkingAccountId: checkingAccountId || null,
         },
       });
@@ -1,29 +1,80 @@
 import { Router } from 'express';
+import { Transaction } from '@prisma/client';
 import prisma from '../db';
 import { authenticateToken, AuthRequest } from '../auth';
 import logger from '../utils/logger';
+import { DEFAULT_CURRENCY, roundAmount } from '../utils/currency';
 import { validate, validators } from '../middleware/validation';
+import { formatErrorResponse, ValidationError } from '../utils/errors';
+import {
+  getTrackedCreditAccountIds,
+  summarizeSpending,
+  saveReportBreakdown,
+  describeAccountTotals,
+  amountOwed,
+} from '../utils/trackedAccounts';
+import { describeCreditLiabilities } from '../utils/liabilities';
+import { getPaidDayAdjustments } from '../utils/paidAdjustments';
+import {
+  describePaymentStatus,
+  getUnpaidBalance,
+  getUnpaidDays,
+  payUnpaidDays,
+  sumPayments,
+} from '../utils/paymentStatus';
+import {
+  DEFAULT_TIMEZONE,
+  addLocalDays,
+  localDateOf,
+  localDayBounds,
+  localDateOfReportKey,
+  parseLocalDate,
+  reportDateKey,
+} from '../utils/localDate';
 
 const router = Router();
 
-// Helper function to get start of day in user's timezone
-function getStartOfDayInTimezone(date: Date, timezone: string): Date {
-  // Convert date to user's timezone and get start of day
-  const dateStr = date.toLocaleDateString('en-US', { timeZone: timezone });
-  const [month, day, year] = dateStr.split('/');
-  // Create date in local time (SQLite stores dates as local time strings)
-  // This will be interpreted correctly by SQLite
-  const localDate = new Date(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T00:00:00`);
-  return localDate;
+const HOUR_MS = 60 * 60 * 1000;
+
+// A random time of day between 9am and 9pm, for mock transactions
+function randomDaytime(startOfDay: Date): Date {
+  return new Date(startOfDay.getTime() + (9 + Math.random() * 12) * HOUR_MS);
 }
 
-// Helper function to get end of day in user's timezone
-function getEndOfDayInTimezone(date: Date, timezone: string): Date {
-  const startOfDay = getStartOfDayInTimezone(date, timezone);
-  const endOfDay = new Date(startOfDay);
-  endOfDay.setDate(endOfDay.getDate() + 1);
-  endOfDay.setMilliseconds(endOfDay.getMilliseconds() - 1);
-  return endOfDay;
+// Shape a stored transaction for API responses
+function formatTransaction(t: Transaction) {
+  const hasLocation = [t.locationAddress, t.locationCity, t.locationRegion, t.locationPostalCode, t.locationCountry, t.locationLat, t.locationLon]
+    .some(value => value !== null);
+
+  return {
+    id: t.id,
+    accountId: t.accountId,
+    name: t.name,
+    amount: Number(t.amount),
+    pending: t.pending,
+    date: t.date,
+    merchantName: t.merchantName,
+    logoUrl: t.logoUrl,
+    category: t.categoryPrimary,
+    categoryDetailed: t.categoryDetailed,
+    paymentChannel: t.paymentChannel,
+    isoCurrencyCode: t.isoCurrencyCode,
+    unofficialCurrencyCode: t.unofficialCurrencyCode,
+    authorizedDate: t.authorizedDate,
+    // Card payments are listed but not counted in totals
+    isPayment: t.isPayment,
+    location: hasLocation
+      ? {
+          address: t.locationAddress,
+          city: t.locationCity,
+          region: t.locationRegion,
+          postalCode: t.locationPostalCode,
+          country: t.locationCountry,
+          lat: t.locationLat,
+          lon: t.locationLon,
+        }
+      : null,
+  };
 }
 
 /**
@@ -44,10 +95,19 @@ function getEndOfDayInTimezone(date: Date, timezone: string): Date {
  *               properties:
  *                 totalAmount:
  *                   type: number
- *                   description: Total amount spent today
+ *                   description: Net amount spent today across all tracked cards, purchases minus refunds and credits
+ *                 purchasesAmount:
+ *                   type: number
+ *                   description: Gross purchases today across all tracked cards
+ *                 refundsAmount:
+ *                   type: number
+ *                   description: Refunds and statement credits today, as a positive amount
+ *                 amountOwed:
+ *                   type: number
+ *                   description: Amount to pay down for today; refunds only reduce it when the user's refundsReduceOwed setting is on, and it is never negative
  *                 transactionCount:
  *                   type: integer
- *                   description: Number of transactions today
+ *                   description: Number of transactions today across all tracked cards
  *                 lastUpdated:
  *                   type: string
  *                   format: date-time
@@ -56,9 +116,138 @@ function getEndOfDayInTimezone(date: Date, timezone: string): Date {
  *                   type: number
  *                   nullable: true
  *                   description: Available balance in checking account
+ *                 checkingCurrency:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Currency of the checking balance
  *                 markedPaid:
  *                   type: boolean
- *                   description: Whether today has been marked as paid
+ *                   description: Whether today has been paid in full, manually or by a detected card payment
+ *                 paid:
+ *                   type: number
+ *                   description: Total of the payments recorded for today
+ *                 remaining:
+ *                   type: number
+ *                   description: Amount owed today that hasn't been paid yet; 0 once today is paid
+ *                 status:
+ *                   type: string
+ *                   enum: [unpaid, partial, paid]
+ *                 unpaidBalance:
+ *                   type: number
+ *                   description: What is left to pay on earlier days since the user signed up, not including today
+ *                 currency:
+ *                   type: string
+ *                   description: User's home currency, which totalAmount and per-card totals are expressed in
+ *                 currencies:
+ *                   type: array
+ *                   description: Totals per transaction currency; entries with converted false are not included in totalAmount
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       currency:
+ *                         type: string
+ *                       totalAmount:
+ *                         type: number
+ *                       transactionCount:
+ *                         type: integer
+ *                       converted:
+ *                         type: boolean
+ *                 accounts:
+ *                   type: array
+ *                   description: Per-card breakdown for each tracked credit card
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       accountId:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                         nullable: true
+ *                       mask:
+ *                         type: string
+ *                         nullable: true
+ *                       totalAmount:
+ *                         type: number
+ *                       transactionCount:
+ *                         type: integer
+ *                 liabilities:
+ *                   type: array
+ *                   description: Latest statement and payment details from Plaid Liabilities for tracked cards that report them
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       accountId:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                         nullable: true
+ *                       mask:
+ *                         type: string
+ *                         nullable: true
+ *                       currency:
+ *                         type: string
+ *                       lastStatementBalance:
+ *                         type: number
+ *                         nullable: true
+ *                       lastStatementIssueDate:
+ *                         type: string
+ *                         format: date
+ *                         nullable: true
+ *                       minimumPaymentAmount:
+ *                         type: number
+ *                         nullable: true
+ *                       nextPaymentDueDate:
+ *                         type: string
+ *                         format: date
+ *                         nullable: true
+ *                       lastPaymentAmount:
+ *                         type: number
+ *                         nullable: true
+ *                       lastPaymentDate:
+ *                         type: string
+ *                         format: date
+ *                         nullable: true
+ *                       isOverdue:
+ *                         type: boolean
+ *                         nullable: true
+ *                       aprs:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             type:
+ *                               type: string
+ *                               description: e.g. purchase_apr, cash_apr, balance_transfer_apr
+ *                             percentage:
+ *                               type: number
+ *                             balanceSubjectToApr:
+ *                               type: number
+ *                               nullable: true
+ *                             interestChargeAmount:
+ *                               type: number
+ *                               nullable: true
+ *                       lastRefreshedAt:
+ *                         type: string
+ *                         format: date-time
+ *                 paidDayAdjustments:
+ *                   type: array
+ *                   description: Days in the last 30 that were marked as paid and whose amount owed has changed since; marking the day paid again clears it
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       paidAmount:
+ *                         type: number
+ *                         description: Amount owed when the day was marked as paid
+ *                       amountOwed:
+ *                         type: number
+ *                       delta:
+ *                         type: number
+ *                         description: amountOwed minus paidAmount; positive when more is owed
+ *                       currency:
+ *                         type: string
  *       400:
  *         description: No credit account selected
  *         content:
@@ -73,65 +262,52 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
     // Get user's timezone and account selection
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { timezone: true },
+      select: { timezone: true, homeCurrency: true, refundsReduceOwed: true },
     });
 
     const accountSelection = await prisma.accountSelection.findUnique({
       where: { userId },
     });
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
+
+    if (creditAccountIds.length === 0) {
       return res.status(400).json({ error: 'No credit account selected' });
     }
 
-    const timezone = user?.timezone || 'America/New_York';
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
     const now = new Date();
-    const startOfDay = getStartOfDayInTimezone(now, timezone);
-    const endOfDay = getEndOfDayInTimezone(now, timezone);
+    const today = localDateOf(now, timezone);
+    const { start, end } = localDayBounds(today, timezone);
 
     // Get today's transactions
-    let transactions;
-    if (process.env.TEST_MODE === 'true') {
-      // In TEST_MODE with SQLite, fetch all transactions and filter by date string
-      // SQLite date comparisons can be tricky, so we'll filter in JavaScript
-      const todayDateStr = now.toLocaleDateString('en-CA', { timeZone: timezone }); // YYYY-MM-DD
-      
-      // Fetch all transactions for this user and account
-      const allTransactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-        },
-      });
-      
-      // Filter to only today's transactions using date string comparison in user's timezone
-      transactions = allTransactions.filter(t => {
-        // Convert transaction date to user's timezone and compare date strings
-        const txDateStr = new Date(t.date).toLocaleDateString('en-CA', { timeZone: timezone });
-        return txDateStr === todayDateStr;
-      });
-      
-      logger.debug(`[TEST MODE] Found ${transactions.length} transactions for today (${todayDateStr}) out of ${allTransactions.length} total`, { userId, todayDateStr, transactionCount: transactions.length });
-    } else {
-      transactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-          date: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        accountId: { in: creditAccountIds },
+        retiredAt: null,
+        isPayment: false,
+        date: {
+          gte: start,
+          lt: end,
         },
-      });
-    }
+      },
+    });
 
-    // Calculate total
-    const totalAmount = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
-    const transactionCount = transactions.length;
+    // Calculate totals across all tracked cards and per card
+    const summary = await summarizeSpending(
+      transactions,
+      creditAccountIds,
+      user?.homeCurrency || DEFAULT_CURRENCY,
+      now
+    );
+    const { totalAmount, purchasesAmount, refundsAmount, transactionCount, accounts, currency, currencies } = summary;
+    const owed = amountOwed(summary, user?.refundsReduceOwed ?? true);
 
     // Get latest balance snapshot for checking account
     let checkingAvailable: number | null = null;
-    if (accountSelection.checkingAccountId) {
+    let checkingCurrency: string | null = null;
+    if (accountSelection?.checkingAccountId) {
       const latestBalance = await prisma.balanceSnapshot.findFirst({
         where: {
           userId,
@@ -143,25 +319,32 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       });
 
       checkingAvailable = latestBalance?.available ? Number(latestBalance.available) : null;
+      checkingCurrency = latestBalance?.isoCurrencyCode || null;
     }
 
-    // Get today's daily report to check if marked as paid
+    // Get today's daily report to check what has been paid
     const todayReport = await prisma.dailyReport.findUnique({
       where: {
         userId_date: {
           userId,
-          date: startOfDay,
+          date: reportDateKey(today),
         },
       },
+      include: { payments: { select: { amount: true } } },
     });
 
     const markedPaid = !!todayReport?.markedPaidAt;
+    const { paid, remaining, status } = describePaymentStatus({
+      amountOwed: owed,
+      markedPaidAt: todayReport?.markedPaidAt ?? null,
+      payments: todayReport?.payments ?? [],
+    });
 
     // Get last sync time (most recent transaction update)
     const lastTransaction = await prisma.transaction.findFirst({
       where: {
         userId,
-        accountId: accountSelection.creditAccountId,
+        accountId: { in: creditAccountIds },
       },
       orderBy: {
         updatedAt: 'desc',
@@ -172,10 +355,23 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 
     res.json({
       totalAmount,
+      purchasesAmount,
+      refundsAmount,
+      amountOwed: owed,
       transactionCount,
       lastUpdated,
       checkingAvailable,
+      checkingCurrency,
       markedPaid,
+      paid,
+      remaining,
+      status,
+      unpaidBalance: await getUnpaidBalance(userId, today, timezone),
+      currency,
+      currencies,
+      accounts: await describeAccountTotals(userId, accounts),
+      liabilities: await describeCreditLiabilities(userId, creditAccountIds),
+      paidDayAdjustments: await getPaidDayAdjustments(userId),
     });
   } catch (error) {
     logger.error('Get today summary error', { error, userId: req.userId });
@@ -190,71 +386,47 @@ router.get('/transactions', authenticateToken, async (req: AuthRequest, res) =>
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { timezone: true },
+      select: { timezone: true, homeCurrency: true },
     });
 
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
+    if (creditAccountIds.length === 0) {
       return res.status(400).json({ error: 'No credit account selected' });
     }
 
-    const timezone = user?.timezone || 'America/New_York';
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
     const now = new Date();
-    const startOfDay = getStartOfDayInTimezone(now, timezone);
-    const endOfDay = getEndOfDayInTimezone(now, timezone);
+    const { start, end } = localDayBounds(localDateOf(now, timezone), timezone);
 
     // Get today's transactions
-    let transactions;
-    if (process.env.TEST_MODE === 'true') {
-      // In TEST_MODE with SQLite, fetch all transactions and filter by date string
-      const todayDateStr = now.toLocaleDateString('en-CA', { timeZone: timezone }); // YYYY-MM-DD
-      
-      // Fetch all transactions for this user and account
-      const allTransactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-        },
-        orderBy: {
-          date: 'desc',
-        },
-      });
-      
-      // Filter to only today's transactions using date string comparison in user's timezone
-      transactions = allTransactions.filter(t => {
-        // Convert transaction date to user's timezone and compare date strings
-        const txDateStr = new Date(t.date).toLocaleDateString('en-CA', { timeZone: timezone });
-        return txDateStr === todayDateStr;
-      });
-      
-      logger.debug(`[TEST MODE Transactions] Found ${transactions.length} transactions for today (${todayDateStr}) out of ${allTransactions.length} total`);
-    } else {
-      transactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-          date: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
-        },
-        orderBy: {
-          date: 'desc',
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        accountId: { in: creditAccountIds },
+        retiredAt: null,
+        date: {
+          gte: start,
+          lt: end,
         },
-      });
-    }
+      },
+      orderBy: {
+        date: 'desc',
+      },
+    });
+
+    const { accounts, currency, currencies } = await summarizeSpending(
+      transactions.filter(t => !t.isPayment),
+      creditAccountIds,
+      user?.homeCurrency || DEFAULT_CURRENCY,
+      now
+    );
 
     res.json({
-      transactions: transactions.map(t => ({
-        id: t.id,
-        name: t.name,
-        amount: Number(t.amount),
-        pending: t.pending,
-        date: t.date,
-      })),
+      transactions: transactions.map(formatTransaction),
+      currency,
+      currencies,
+      accounts: await describeAccountTotals(userId, accounts),
     });
   } catch (error) {
     logger.error('Get today transactions error', { error, userId: req.userId });
@@ -262,93 +434,204 @@ router.get('/transactions', authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
-// Mark today as paid
+// Record a payment for a day, by default today and whatever is left to pay on it
 router.post('/mark-paid', authenticateToken, validate([
   validators.date,
+  validators.paymentAmount,
 ]), async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
     const { date } = req.body; // Optional: defaults to today
+    const amount: number | undefined = req.body.amount; // Optional: defaults to the amount remaining
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { timezone: true },
+      select: { timezone: true, homeCurrency: true, refundsReduceOwed: true },
     });
 
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
+    if (creditAccountIds.length === 0) {
       return res.status(400).json({ error: 'No credit account selected' });
     }
 
-    const timezone = user?.timezone || 'America/New_York';
-    const targetDate = date ? new Date(date) : new Date();
-    const startOfDay = getStartOfDayInTimezone(targetDate, timezone);
-    const endOfDay = getEndOfDayInTimezone(targetDate, timezone);
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const targetDay = date ? parseLocalDate(date, timezone) : localDateOf(new Date(), timezone);
+    const { start, end } = localDayBounds(targetDay, timezone);
+    const reportDate = reportDateKey(targetDay);
 
-    // Get today's transactions to calculate actual totals
-    let transactions;
-    if (process.env.TEST_MODE === 'true') {
-      const allTransactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-        },
-      });
-      const todayDateStr = targetDate.toLocaleDateString('en-CA', { timeZone: timezone });
-      transactions = allTransactions.filter(t => {
-        const txDateStr = new Date(t.date).toLocaleDateString('en-CA', { timeZone: timezone });
-        return txDateStr === todayDateStr;
-      });
-    } else {
-      transactions = await prisma.transaction.findMany({
-        where: {
-          userId,
-          accountId: accountSelection.creditAccountId,
-          date: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
+    // Get the day's transactions to calculate actual totals
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        accountId: { in: creditAccountIds },
+        retiredAt: null,
+        isPayment: false,
+        date: {
+          gte: start,
+          lt: end,
         },
-      });
-    }
+      },
+    });
 
-    const totalAmount = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
-    const transactionCount = transactions.length;
+    const summary = await summarizeSpending(
+      transactions,
+      creditAccountIds,
+      user?.homeCurrency || DEFAULT_CURRENCY,
+      start
+    );
+    const { totalAmount, purchasesAmount, refundsAmount, transactionCount, currency } = summary;
+    const owed = amountOwed(summary, user?.refundsReduceOwed ?? true);
 
     // Get or create daily report with correct totals
     const dailyReport = await prisma.dailyReport.upsert({
       where: {
         userId_date: {
           userId,
-          date: startOfDay,
+          date: reportDate,
         },
       },
       update: {
-        markedPaidAt: new Date(),
         totalAmount,
+        purchasesAmount,
+        refundsAmount,
+        amountOwed: owed,
         transactionCount,
+        currency,
         lastComputedAt: new Date(),
         updatedAt: new Date(),
       },
       create: {
         userId,
-        date: startOfDay,
+        date: reportDate,
         totalAmount,
+        purchasesAmount,
+        refundsAmount,
+        amountOwed: owed,
         transactionCount,
-        markedPaidAt: new Date(),
+        currency,
       },
     });
 
-    res.json({ success: true, markedPaidAt: dailyReport.markedPaidAt });
+    await saveReportBreakdown(dailyReport.id, summary);
+
+    const stored = await prisma.$transaction(async (tx) => {
+      // Take the write lock before reading payments, so a double tap or retried request
+      // waits for this one and then finds nothing left to pay
+      await tx.dailyReport.update({
+        where: { id: dailyReport.id },
+        data: { updatedAt: new Date() },
+      });
+
+      const current = await tx.dailyReport.findUniqueOrThrow({
+        where: { id: dailyReport.id },
+        include: { payments: { select: { amount: true } } },
+      });
+
+      const alreadyPaid = sumPayments(current.payments);
+      const remaining = Math.max(roundAmount(owed - alreadyPaid), 0);
+      const paymentAmount = amount ?? remaining;
+
+      // The excess wouldn't count towards any other day
+      if (roundAmount(paymentAmount) > remaining) {
+        throw new ValidationError('Payment is more than what is left to pay on the day', {
+          amount: paymentAmount,
+          remaining,
+        });
+      }
+
+      if (paymentAmount > 0) {
+        await tx.dailyReportPayment.create({
+          data: {
+            dailyReportId: dailyReport.id,
+            source: 'manual',
+            amount: paymentAmount,
+          },
+        });
+      }
+
+      // Paying less than what is left records a partial payment and leaves the day unpaid
+      if (roundAmount(alreadyPaid + paymentAmount) >= roundAmount(owed)) {
+        await tx.dailyReport.update({
+          where: { id: dailyReport.id },
+          data: { markedPaidAt: new Date(), paidAmount: owed, adjustmentNotifiedAmount: null },
+        });
+      }
+
+      return tx.dailyReport.findUniqueOrThrow({
+        where: { id: dailyReport.id },
+        include: { payments: { select: { amount: true } } },
+      });
+    });
+
+    res.json({ success: true, markedPaidAt: stored.markedPaidAt, ...describePaymentStatus(stored) });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(formatErrorResponse(error));
+    }
     logger.error('Mark paid error', { error, userId: req.userId });
     res.status(500).json({ error: 'Failed to mark as paid' });
   }
 });
 
+// Everything left to pay on earlier days, with the days it comes from, oldest first
+// Matches unpaidBalance on /today; today itself is still open and not included
+router.get('/unpaid', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true, homeCurrency: true },
+    });
+
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const days = await getUnpaidDays(userId, localDateOf(new Date(), timezone), timezone);
+
+    res.json({
+      totalRemaining: roundAmount(days.reduce((sum, day) => sum + day.remaining, 0)),
+      currency: user?.homeCurrency || DEFAULT_CURRENCY,
+      days: days.map(({ report, paid, remaining, status }) => ({
+        date: localDateOfReportKey(report.date),
+        amountOwed: Number(report.amountOwed),
+        paid,
+        remaining,
+        status,
+      })),
+    });
+  } catch (error) {
+    logger.error('Get unpaid days error', { error, userId: req.userId });
+    res.status(500).json({ error: 'Failed to get unpaid days' });
+  }
+});
+
+// Pay off every day listed by /today/unpaid in one go
+router.post('/mark-all-paid', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true, homeCurrency: true },
+    });
+
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const { days, total } = await payUnpaidDays(userId, localDateOf(new Date(), timezone), timezone);
+
+    logger.info('Marked unpaid days as paid', { userId, days: days.length, total });
+
+    res.json({
+      success: true,
+      totalPaid: total,
+      currency: user?.homeCurrency || DEFAULT_CURRENCY,
+      dates: days.map(day => localDateOfReportKey(day.report.date)),
+    });
+  } catch (error) {
+    logger.error('Mark all paid error', { error, userId: req.userId });
+    res.status(500).json({ error: 'Failed to mark all as paid' });
+  }
+});
+
 // TEST MODE: Add mock transactions for today
 router.post('/test/transactions', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -359,11 +642,9 @@ router.post('/test/transactions', authenticateToken, async (req: AuthRequest, re
     const userId = req.userId!;
     const { count = 5 } = req.body; // Default to 5 transactions
 
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
+    if (creditAccountIds.length === 0) {
       return res.status(400).json({ error: 'No credit account selected' });
     }
 
@@ -372,30 +653,20 @@ router.post('/test/transactions', authenticateToken, async (req: AuthRequest, re
       select: { timezone: true },
     });
 
-    const timezone = user?.timezone || 'America/New_York';
-    const now = new Date();
-    const startOfDay = getStartOfDayInTimezone(now, timezone);
-    const todayDateStr = now.toLocaleDateString('en-CA', { timeZone: timezone });
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const { start, end } = localDayBounds(localDateOf(new Date(), timezone), timezone);
 
     // Delete existing transactions for today first
-    const existingTransactions = await prisma.transaction.findMany({
+    const deleted = await prisma.transaction.deleteMany({
       where: {
         userId,
-        accountId: accountSelection.creditAccountId,
+        accountId: { in: creditAccountIds },
+        date: { gte: start, lt: end },
       },
     });
-    
-    const todayTransactions = existingTransactions.filter(t => {
-      const txDateStr = new Date(t.date).toLocaleDateString('en-CA', { timeZone: timezone });
-      return txDateStr === todayDateStr;
-    });
-    
-    if (todayTransactions.length > 0) {
-      // Delete each transaction individually (works better with SQLite)
-      await Promise.all(
-        todayTransactions.map(t => prisma.transaction.delete({ where: { id: t.id } }))
-      );
-      logger.debug(`Deleted ${todayTransactions.length} existing transactions for today`);
+
+    if (deleted.count > 0) {
+      logger.debug(`Deleted ${deleted.count} existing transactions for today`);
     }
 
     // Mock transactions with varied amounts for today (Jan 9, 2026)
@@ -418,16 +689,14 @@ router.post('/test/transactions', authenticateToken, async (req: AuthRequest, re
 
     const created = [];
     for (const tx of mockTransactions) {
-      const transactionDate = new Date(startOfDay);
-      transactionDate.setHours(9 + Math.floor(Math.random() * 12)); // Random time during day
-      transactionDate.setMinutes(Math.floor(Math.random() * 60));
+      const transactionDate = randomDaytime(start);
 
       const randomizedAmount = randomizeAmount(tx.amount);
       
       const transaction = await prisma.transaction.create({
         data: {
           userId,
-          accountId: accountSelection.creditAccountId,
+          accountId: creditAccountIds[0],
           plaidTransactionId: `test-${Date.now()}-${Math.random()}`,
           date: transactionDate,
           name: tx.name,
@@ -521,18 +790,27 @@ router.post('/test/reset-paid', authenticateToken, async (req: AuthRequest, res)
       select: { timezone: true },
     });
 
-    const timezone = user?.timezone || 'America/New_York';
-    const targetDate = date ? new Date(date) : new Date();
-    const startOfDay = getStartOfDayInTimezone(targetDate, timezone);
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const targetDay = date ? parseLocalDate(date, timezone) : localDateOf(new Date(), timezone);
+
+    // Drop payments recorded by hand; card payments stay applied
+    await prisma.dailyReportPayment.deleteMany({
+      where: {
+        source: 'manual',
+        dailyReport: { userId, date: reportDateKey(targetDay) },
+      },
+    });
 
     // Update daily report to remove markedPaidAt
     await prisma.dailyReport.updateMany({
       where: {
         userId,
-        date: startOfDay,
+        date: reportDateKey(targetDay),
       },
       data: {
         markedPaidAt: null,
+        paidAmount: null,
+        adjustmentNotifiedAmount: null,
         updatedAt: new Date(),
       },
     });
@@ -553,11 +831,9 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
 
     const userId = req.userId!;
 
-    const accountSelection = await prisma.accountSelection.findUnique({
-      where: { userId },
-    });
+    const creditAccountIds = await getTrackedCreditAccountIds(userId);
 
-    if (!accountSelection || !accountSelection.creditAccountId) {
+    if (creditAccountIds.length === 0) {
       return res.status(400).json({ error: 'No credit account selected' });
     }
 
@@ -566,8 +842,8 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
       select: { timezone: true },
     });
 
-    const timezone = user?.timezone || 'America/New_York';
-    const now = new Date();
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const today = localDateOf(new Date(), timezone);
 
     // Define days to create: 2 days ago, yesterday, today, tomorrow
     const daysToCreate = [
@@ -599,9 +875,9 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
     const created = [];
 
     for (const day of daysToCreate) {
-      const targetDate = new Date(now);
-      targetDate.setDate(targetDate.getDate() + day.offset);
-      const startOfDay = getStartOfDayInTimezone(targetDate, timezone);
+      const targetDay = addLocalDays(today, day.offset);
+      const { start } = localDayBounds(targetDay, timezone);
+      const reportDate = reportDateKey(targetDay);
 
       // Create mock transactions for this day
       const transactions = [];
@@ -612,9 +888,7 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
         const amount = mockAmounts[amountIndex];
         const name = mockTransactionNames[nameIndex];
 
-        const transactionDate = new Date(startOfDay);
-        transactionDate.setHours(9 + Math.floor(Math.random() * 12));
-        transactionDate.setMinutes(Math.floor(Math.random() * 60));
+        const transactionDate = randomDaytime(start);
 
         const plaidTxId = `test-history-${day.offset}-${i}-${userId}`;
         const isPending = Math.random() > 0.85; // 15% chance of being pending
@@ -637,7 +911,7 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
           : await prisma.transaction.create({
               data: {
                 userId,
-                accountId: accountSelection.creditAccountId,
+                accountId: creditAccountIds[0],
                 plaidTransactionId: plaidTxId,
                 date: transactionDate,
                 name,
@@ -651,13 +925,15 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
 
       // Calculate total for this day
       const totalAmount = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+      const purchasesAmount = transactions.reduce((sum, t) => sum + Math.max(Number(t.amount), 0), 0);
+      const refundsAmount = purchasesAmount - totalAmount;
 
       // Check if daily report already exists
       const existingReport = await prisma.dailyReport.findUnique({
         where: {
           userId_date: {
             userId,
-            date: startOfDay,
+            date: reportDate,
           },
         },
       });
@@ -665,15 +941,20 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
       // Prepare update data
       const updateData: any = {
         totalAmount,
+        purchasesAmount,
+        refundsAmount,
+        amountOwed: Math.max(totalAmount, 0),
         transactionCount: day.transactionCount,
         lastComputedAt: new Date(),
       };
       
       if (day.markPaid) {
         updateData.markedPaidAt = new Date();
+        updateData.paidAmount = updateData.amountOwed;
       } else if (existingReport) {
         // Only set to null if we're updating an existing report that was marked as paid
         updateData.markedPaidAt = null;
+        updateData.paidAmount = null;
       }
 
       // Create or update daily report
@@ -682,7 +963,7 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
             where: {
               userId_date: {
                 userId,
-                date: startOfDay,
+                date: reportDate,
               },
             },
             data: updateData,
@@ -690,10 +971,14 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
         : await prisma.dailyReport.create({
             data: {
               userId,
-              date: startOfDay,
+              date: reportDate,
               totalAmount,
+              purchasesAmount,
+              refundsAmount,
+              amountOwed: Math.max(totalAmount, 0),
               transactionCount: day.transactionCount,
               markedPaidAt: day.markPaid ? new Date() : undefined,
+              paidAmount: day.markPaid ? Math.max(totalAmount, 0) : undefined,
               lastComputedAt: new Date(),
             },
           });
@@ -703,7 +988,7 @@ router.post('/test/history', authenticateToken, async (req: AuthRequest, res) =>
         totalAmount: Number(totalAmount),
         transactionCount: day.transactionCount,
         markedPaid: day.markPaid,
-        dateISO: startOfDay.toISOString(),
+        dateISO: reportDate.toISOString(),
       });
     }
 
@@ -741,18 +1026,17 @@ router.post('/test/cleanup', authenticateToken, async (req: AuthRequest, res) =>
       select: { timezone: true },
     });
 
-    const timezone = user?.timezone || 'America/New_York';
-    const now = new Date();
-    const todayStartOfDay = getStartOfDayInTimezone(now, timezone);
-    const todayEndOfDay = getEndOfDayInTimezone(now, timezone);
+    const timezone = user?.timezone || DEFAULT_TIMEZONE;
+    const today = localDateOf(new Date(), timezone);
+    const { start, end } = localDayBounds(today, timezone);
 
     // Delete transactions that are NOT for today (past and future)
     const deletedTransactions = await prisma.transaction.deleteMany({
       where: {
         userId,
         OR: [
-          { date: { lt: todayStartOfDay } }, // Past dates
-          { date: { gt: todayEndOfDay } },   // Future dates
+          { date: { lt: start } }, // Past dates
+          { date: { gte: end } },  // Future dates
         ],
       },
     });
@@ -761,10 +1045,7 @@ router.post('/test/cleanup', authenticateToken, async (req: AuthRequest, res) =>
     const deletedReports = await prisma.dailyReport.deleteMany({
       where: {
         userId,
-        OR: [
-          { date: { lt: todayStartOfDay } }, // Past dates
-          { date: { gt: todayEndOfDay } },   // Future dates
-        ],
+        date: { not: reportDateKey(today) },
       },
     });
 
@@ -0,0 +1,40 @@
+/**
+ * Rewrite daily report keys and Plaid transaction dates to the local date format
+ *
+ * Usage: npm run migrate-report-dates -- [--dry-run]
+ *
+ * Run once after deploying with the server's TZ set as it was when the data was
+ * written, since older rows were stored at midnight server time.
+ */
+
+import 'dotenv/config';
+import prisma from '../db';
+import { migrateReportDates } from '../jobs/migrateReportDates';
+
+function parseArgs(argv: string[]) {
+  let dryRun = false;
+
+  for (const arg of argv) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { dryRun };
+}
+
+async function main() {
+  const result = await migrateReportDates(parseArgs(process.argv.slice(2)));
+
+  console.log(JSON.stringify(result, null, 2));
+  process.exitCode = result.unrecognizedReports > 0 ? 1 : 0;
+}
+
+main()
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,47 @@
+/**
+ * Re-encrypt stored Plaid access tokens with the active encryption key
+ *
+ * Usage: npm run rotate-token-keys -- [--batch-size=100] [--dry-run]
+ *
+ * Add the new key to PLAID_TOKEN_ENCRYPTION_KEYS and point
+ * PLAID_TOKEN_ENCRYPTION_ACTIVE_KEY_ID at it before running. The old key can be
+ * removed once a run finishes with no failures.
+ */
+
+import 'dotenv/config';
+import prisma from '../db';
+import { reencryptPlaidTokens } from '../jobs/rotateEncryptionKeys';
+
+function parseArgs(argv: string[]) {
+  let batchSize: number | undefined;
+  let dryRun = false;
+
+  for (const arg of argv) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--batch-size=')) {
+      batchSize = parseInt(arg.slice('--batch-size='.length), 10);
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error('--batch-size must be a positive integer');
+      }
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { batchSize, dryRun };
+}
+
+async function main() {
+  const result = await reencryptPlaidTokens(parseArgs(process.argv.slice(2)));
+
+  console.log(JSON.stringify(result, null, 2));
+  process.exitCode = result.failed > 0 ? 1 : 0;
+}
+
+main()
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
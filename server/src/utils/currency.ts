@@ -0,0 +1,149 @@
+/**
+ * Currency helpers
+ * Transactions carry their own currency; totals are converted to the user's home
+ * currency through a pluggable exchange rate provider. Without a provider, or when a
+ * rate is unavailable, amounts stay grouped under their own currency instead of being
+ * added to the home-currency total.
+ */
+
+import { env } from '../config/env';
+import logger from './logger';
+
+// Currency assumed for rows stored before currencies were tracked
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  // Units of `to` for one unit of `from` on the given day, or null when the pair isn't
+  // available. Providers without historical rates say so in their own docs.
+  getRate(from: string, to: string, on: Date): Promise<number | null>;
+}
+
+/**
+ * Rate provider backed by a fixed table of rates, expressed as units per one USD
+ * Used in tests and for local development
+ */
+export class FixtureRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly ratesPerUsd: Record<string, number>) {}
+
+  async getRate(from: string, to: string): Promise<number | null> {
+    if (from === to) {
+      return 1;
+    }
+
+    const fromRate = this.ratesPerUsd[from];
+    const toRate = this.ratesPerUsd[to];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+
+    return toRate / fromRate;
+  }
+}
+
+/**
+ * Rate provider that loads a `{ base, rates }` JSON document from a URL
+ * A `{date}` placeholder in the URL is replaced with the requested day (yyyy-MM-dd, UTC),
+ * for sources with historical rates. Without one, the source only has current rates:
+ * the rates first fetched for a day are kept for that day, so rebuilding a report
+ * doesn't move its totals. Past days are cached for good, the current day for an hour.
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+  private cache = new Map<string, { rates: Record<string, number>; fetchedAt: number }>();
+
+  constructor(private readonly url: string, private readonly cacheTtlMs = 60 * 60 * 1000) {}
+
+  private async loadRates(on: Date) {
+    const day = on.toISOString().slice(0, 10);
+    const isPast = day < new Date().toISOString().slice(0, 10);
+
+    const cached = this.cache.get(day);
+    if (cached && (isPast || Date.now() - cached.fetchedAt < this.cacheTtlMs)) {
+      return cached;
+    }
+
+    const response = await fetch(this.url.replace('{date}', day));
+    if (!response.ok) {
+      throw new Error(`Exchange rate request failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as { base: string; rates: Record<string, number> };
+    const entry = { rates: { ...data.rates, [data.base]: 1 }, fetchedAt: Date.now() };
+    this.cache.set(day, entry);
+    return entry;
+  }
+
+  async getRate(from: string, to: string, on: Date): Promise<number | null> {
+    if (from === to) {
+      return 1;
+    }
+
+    const { rates } = await this.loadRates(on);
+    if (!rates[from] || !rates[to]) {
+      return null;
+    }
+
+    return rates[to] / rates[from];
+  }
+}
+
+let exchangeRateProvider: ExchangeRateProvider | null = env.exchangeRatesUrl
+  ? new HttpRateProvider(env.exchangeRatesUrl)
+  : null;
+
+/**
+ * Replace the exchange rate provider; null turns conversion off
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider | null): void {
+  exchangeRateProvider = provider;
+}
+
+/**
+ * Get the rate to convert `from` into `to`, or null if it can't be converted
+ */
+export async function getExchangeRate(from: string, to: string, on: Date): Promise<number | null> {
+  if (from === to) {
+    return 1;
+  }
+
+  if (!exchangeRateProvider) {
+    return null;
+  }
+
+  try {
+    return await exchangeRateProvider.getRate(from, to, on);
+  } catch (error) {
+    logger.warn('Exchange rate lookup failed', {
+      provider: exchangeRateProvider.name,
+      from,
+      to,
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Currency of a stored transaction
+ * Plaid sets exactly one of iso_currency_code and unofficial_currency_code
+ */
+export function transactionCurrency(transaction: {
+  isoCurrencyCode?: string | null;
+  unofficialCurrencyCode?: string | null;
+}): string {
+  return transaction.isoCurrencyCode || transaction.unofficialCurrencyCode || DEFAULT_CURRENCY;
+}
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Format an amount the way push notifications show it, e.g. "USD 12.50"
+ */
+export function formatAmount(currency: string, amount: number): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Credit card liability helpers
+ * CreditLiability rows hold what Plaid Liabilities last reported for each card.
+ * Due and statement dates are calendar dates stored at UTC midnight.
+ */
+
+import { CreditLiability } from '@prisma/client';
+import prisma from '../db';
+import { DEFAULT_CURRENCY } from './currency';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface CreditLiabilityApr {
+  type: string;
+  percentage: number;
+  balanceSubjectToApr: number | null;
+  interestChargeAmount: number | null;
+}
+
+/**
+ * Format a stored calendar date as yyyy-MM-dd
+ */
+export function formatCalendarDate(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Whole days from the user's local date (yyyy-MM-dd) until a stored due date
+ * Negative once the due date has passed
+ */
+export function daysUntilDue(dueDate: Date, today: string): number {
+  return Math.round((dueDate.getTime() - new Date(`${today}T00:00:00.000Z`).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Whether the last payment Plaid reported covers the last statement balance
+ */
+export function isStatementPaid(liability: CreditLiability): boolean {
+  if (!liability.lastPaymentDate || !liability.lastStatementIssueDate || liability.lastPaymentAmount === null) {
+    return false;
+  }
+
+  return liability.lastPaymentDate >= liability.lastStatementIssueDate
+    && Number(liability.lastPaymentAmount) >= Number(liability.lastStatementBalance ?? 0);
+}
+
+/**
+ * Get the stored liabilities for the given cards with the cached card name and mask, for API responses
+ * Cards without liabilities data are left out
+ */
+export async function describeCreditLiabilities(userId: string, accountIds: string[]) {
+  if (accountIds.length === 0) {
+    return [];
+  }
+
+  const [liabilities, cached] = await Promise.all([
+    prisma.creditLiability.findMany({
+      where: { userId, accountId: { in: accountIds } },
+    }),
+    prisma.account.findMany({
+      where: { userId, accountId: { in: accountIds } },
+      select: { accountId: true, name: true, mask: true },
+    }),
+  ]);
+  const byId = new Map(cached.map(a => [a.accountId, a]));
+
+  return liabilities.map(liability => ({
+    accountId: liability.accountId,
+    name: byId.get(liability.accountId)?.name || null,
+    mask: byId.get(liability.accountId)?.mask || null,
+    currency: liability.isoCurrencyCode || DEFAULT_CURRENCY,
+    lastStatementBalance: liability.lastStatementBalance !== null ? Number(liability.lastStatementBalance) : null,
+    lastStatementIssueDate: formatCalendarDate(liability.lastStatementIssueDate),
+    minimumPaymentAmount: liability.minimumPaymentAmount !== null ? Number(liability.minimumPaymentAmount) : null,
+    nextPaymentDueDate: formatCalendarDate(liability.nextPaymentDueDate),
+    lastPaymentAmount: liability.lastPaymentAmount !== null ? Number(liability.lastPaymentAmount) : null,
+    lastPaymentDate: formatCalendarDate(liability.lastPaymentDate),
+    isOverdue: liability.isOverdue,
+    aprs: JSON.parse(liability.aprs) as CreditLiabilityApr[],
+    lastRefreshedAt: liability.lastRefreshedAt,
+  }));
+}
@@ -0,0 +1,108 @@
+/**
+ * Local date helpers
+ * Everything that groups by "the user's day" goes through here. A local date is a
+ * yyyy-MM-dd string in the user's timezone. Its transactions are those whose instant
+ * falls in [start, end) of that day in the timezone, which is 23 or 25 hours long on
+ * DST transitions. DailyReport rows are keyed by the local date at UTC midnight, so
+ * the key for a day never depends on the timezone or the server's clock.
+ */
+
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import prisma from '../db';
+
+// Used for users who haven't set a timezone yet
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+const LOCAL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get a user's timezone, falling back to the default
+ */
+export async function getUserTimezone(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  });
+
+  return user?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * The local date an instant falls on in the given timezone
+ */
+export function localDateOf(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Whether a value is a real calendar date in yyyy-MM-dd form
+ */
+export function isLocalDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !LOCAL_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Shift a local date by a number of calendar days
+ */
+export function addLocalDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Every local date from startDate to endDate inclusive
+ */
+export function localDatesBetween(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addLocalDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The instants a local date starts at (inclusive) and ends at (exclusive)
+ */
+export function localDayBounds(localDate: string, timezone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(`${localDate}T00:00:00`, timezone),
+    end: zonedTimeToUtc(`${addLocalDays(localDate, 1)}T00:00:00`, timezone),
+  };
+}
+
+/**
+ * The DailyReport.date key for a local date
+ */
+export function reportDateKey(localDate: string): Date {
+  return new Date(`${localDate}T00:00:00.000Z`);
+}
+
+/**
+ * The local date a DailyReport.date key stands for
+ */
+export function localDateOfReportKey(key: Date): string {
+  return key.toISOString().slice(0, 10);
+}
+
+/**
+ * Store a calendar date from Plaid at noon in the user's timezone
+ * Noon keeps the transaction on the same local date even if the user later moves a
+ * few timezones, where midnight would slip onto the previous day.
+ */
+export function calendarDateToInstant(calendarDate: string, timezone: string): Date {
+  return zonedTimeToUtc(`${calendarDate}T12:00:00`, timezone);
+}
+
+/**
+ * Resolve a date from a request to a local date
+ * Plain yyyy-MM-dd values are taken as the local date itself; full timestamps are
+ * converted into the timezone.
+ */
+export function parseLocalDate(value: string, timezone: string): string {
+  return LOCAL_DATE_PATTERN.test(value) ? value : localDateOf(new Date(value), timezone);
+}
@@ -0,0 +1,163 @@
+/**
+ * Changes to days already marked as paid
+ * The amount owed is snapshotted as paidAmount when a day is marked paid. A tip, a
+ * pending charge posting for a different amount or a late transaction can change the
+ * day's total afterwards; the difference is shown on /today, and each change is pushed
+ * once after the recompute that caused it.
+ * Marking the day paid again takes a new snapshot and clears the difference.
+ */
+
+import { Prisma } from '@prisma/client';
+import { formatInTimeZone } from 'date-fns-tz';
+import prisma from '../db';
+import logger from './logger';
+import { roundAmount } from './currency';
+import { addLocalDays, getUserTimezone, localDateOf, localDateOfReportKey, reportDateKey } from './localDate';
+
+// Paid days older than this are no longer watched for changes
+const ADJUSTMENT_WINDOW_DAYS = 30;
+
+export interface PaidDayAdjustment {
+  date: string; // yyyy-MM-dd
+  paidAmount: number;
+  amountOwed: number;
+  // Positive when more is owed than was paid
+  delta: number;
+  currency: string;
+}
+
+/**
+ * How much a paid day's amount owed has moved since it was paid, or 0
+ * Days paid before snapshots were taken have no paidAmount and never report a change
+ */
+export function paidDelta(report: {
+  markedPaidAt: Date | null;
+  paidAmount: Prisma.Decimal | null;
+  amountOwed: Prisma.Decimal;
+}): number {
+  if (!report.markedPaidAt || report.paidAmount === null) {
+    return 0;
+  }
+  return roundAmount(Number(report.amountOwed) - Number(report.paidAmount));
+}
+
+/**
+ * Paid reports within the window whose amount owed has changed, oldest first
+ */
+export async function findChangedPaidReports(userId: string, today: string) {
+  const reports = await prisma.dailyReport.findMany({
+    where: {
+      userId,
+      markedPaidAt: { not: null },
+      paidAmount: { not: null },
+      date: { gte: reportDateKey(addLocalDays(today, -ADJUSTMENT_WINDOW_DAYS)) },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  return reports.filter(report => paidDelta(report) !== 0);
+}
+
+export function toAdjustment(report: Awaited<ReturnType<typeof findChangedPaidReports>>[number]): PaidDayAdjustment {
+  return {
+    date: localDateOfReportKey(report.date),
+    paidAmount: Number(report.paidAmount),
+    amountOwed: Number(report.amountOwed),
+    delta: paidDelta(report),
+    currency: report.currency,
+  };
+}
+
+/**
+ * Recent paid days whose amount owed has changed since they were paid, oldest first
+ */
+export async function getPaidDayAdjustments(userId: string): Promise<PaidDayAdjustment[]> {
+  const timezone = await getUserTimezone(userId);
+  const reports = await findChangedPaidReports(userId, localDateOf(new Date(), timezone));
+  return reports.map(toAdjustment);
+}
+
+/**
+ * Name a local date the way a notification refers to it
+ * Days in the past week go by their weekday, older ones by their date
+ */
+export function describeLocalDate(localDate: string, today: string): string {
+  if (localDate === today) {
+    return 'today';
+  }
+  if (localDate === addLocalDays(today, -1)) {
+    return 'yesterday';
+  }
+  const format = localDate >= addLocalDays(today, -6) ? 'EEEE' : 'MMMM d';
+  return formatInTimeZone(reportDateKey(localDate), 'UTC', format);
+}
+
+/**
+ * Tell the user about days they already paid whose amount owed has changed since
+ * Runs after reports are recomputed, the only time a paid day can change. Each change
+ * is pushed once, straight away rather than at the user's notification time, since the
+ * difference may need paying before then.
+ */
+export async function notifyPaidDayAdjustments(userId: string): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true, notificationTime: true },
+    });
+
+    if (!user || !user.timezone || !user.notificationTime) {
+      return; // User hasn't configured notifications
+    }
+
+    const today = localDateOf(new Date(), user.timezone);
+
+    // A day whose total is back to what was paid no longer has a change to report, so a
+    // later move to the last notified figure is pushed again
+    const notifiedReports = await prisma.dailyReport.findMany({
+      where: { userId, adjustmentNotifiedAmount: { not: null } },
+      select: { id: true, markedPaidAt: true, paidAmount: true, amountOwed: true },
+    });
+    const settledIds = notifiedReports.filter(report => paidDelta(report) === 0).map(report => report.id);
+    if (settledIds.length > 0) {
+      await prisma.dailyReport.updateMany({
+        where: { id: { in: settledIds } },
+        data: { adjustmentNotifiedAmount: null },
+      });
+    }
+
+    const reports = (await findChangedPaidReports(userId, today)).filter(
+      report => report.adjustmentNotifiedAmount === null
+        || roundAmount(Number(report.adjustmentNotifiedAmount)) !== roundAmount(Number(report.amountOwed))
+    );
+
+    if (reports.length === 0) {
+      return;
+    }
+
+    // Loaded here so report computation doesn't pull in APNs
+    const { sendPaidDayAdjustmentNotification } = await import('../push');
+
+    const adjustments = reports.map(toAdjustment);
+    await sendPaidDayAdjustmentNotification(
+      userId,
+      adjustments.map(adjustment => ({ ...adjustment, label: describeLocalDate(adjustment.date, today) }))
+    );
+
+    // Recorded even if no device received it, so the same change isn't pushed again
+    await prisma.$transaction(
+      reports.map(report =>
+        prisma.dailyReport.update({
+          where: { id: report.id },
+          data: { adjustmentNotifiedAmount: report.amountOwed },
+        })
+      )
+    );
+
+    logger.info('Notified user of changes to paid days', {
+      userId,
+      days: adjustments.map(adjustment => adjustment.date),
+    });
+  } catch (error) {
+    logger.error('Error sending paid day adjustments for user', { error, userId });
+  }
+}
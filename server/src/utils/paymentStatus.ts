@@ -0,0 +1,124 @@
+/**
+ * How much of each day has been paid
+ * A day's payments are its DailyReportPayment records, from detected card payments or
+ * amounts the user recorded through mark-paid. A day is paid once markedPaidAt is set,
+ * partial while it has payments that don't cover it yet, and unpaid otherwise. What is
+ * left on earlier days since the user signed up rolls forward as their unpaid balance;
+ * before sign-up, nothing was expected to be paid down, so that is the last full paydown.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { roundAmount } from './currency';
+import { localDateOf, reportDateKey } from './localDate';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export interface DayPaymentStatus {
+  paid: number;
+  remaining: number;
+  status: PaymentStatus;
+}
+
+/**
+ * Total of the payment records for a day
+ */
+export function sumPayments(payments: { amount: Prisma.Decimal }[]): number {
+  return roundAmount(payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+}
+
+/**
+ * Paid, remaining and status for a day
+ * Paid days have nothing remaining, even if their total has changed since; that shows
+ * up as a paid day adjustment instead
+ */
+export function describePaymentStatus(report: {
+  amountOwed: Prisma.Decimal | number;
+  markedPaidAt: Date | null;
+  payments: { amount: Prisma.Decimal }[];
+}): DayPaymentStatus {
+  const paid = sumPayments(report.payments);
+
+  if (report.markedPaidAt) {
+    return { paid, remaining: 0, status: 'paid' };
+  }
+
+  return {
+    paid,
+    remaining: Math.max(roundAmount(Number(report.amountOwed) - paid), 0),
+    status: paid > 0 ? 'partial' : 'unpaid',
+  };
+}
+
+/**
+ * Days before the given local date, back to the user's sign-up, with something left to pay
+ * Days before sign-up only exist from the history backfill and were never expected to
+ * be paid down through the app, so they don't count. Oldest first. Card payments and
+ * the unpaid balance both go through this, so they always agree on what is owed.
+ */
+export async function getUnpaidDays(userId: string, beforeDate: string, timezone: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { createdAt: true },
+  });
+
+  if (!user) {
+    return [];
+  }
+
+  const reports = await prisma.dailyReport.findMany({
+    where: {
+      userId,
+      markedPaidAt: null,
+      amountOwed: { gt: 0 },
+      date: {
+        gte: reportDateKey(localDateOf(user.createdAt, timezone)),
+        lt: reportDateKey(beforeDate),
+      },
+    },
+    include: { payments: { select: { amount: true } } },
+    orderBy: { date: 'asc' },
+  });
+
+  return reports
+    .map(report => ({ report, ...describePaymentStatus(report) }))
+    .filter(day => day.remaining > 0);
+}
+
+/**
+ * What is left to pay on days before the given local date, back to the user's sign-up
+ */
+export async function getUnpaidBalance(userId: string, beforeDate: string, timezone: string): Promise<number> {
+  const days = await getUnpaidDays(userId, beforeDate, timezone);
+  return roundAmount(days.reduce((sum, day) => sum + day.remaining, 0));
+}
+
+/**
+ * Pay off every day getUnpaidDays returns, recording what was left on each as a manual payment
+ * Returns the days paid and the total recorded
+ */
+export async function payUnpaidDays(userId: string, beforeDate: string, timezone: string) {
+  const days = await getUnpaidDays(userId, beforeDate, timezone);
+  const now = new Date();
+
+  await prisma.$transaction(
+    days.flatMap(day => [
+      prisma.dailyReportPayment.create({
+        data: {
+          dailyReportId: day.report.id,
+          source: 'manual',
+          amount: day.remaining,
+        },
+      }),
+      prisma.dailyReport.updateMany({
+        where: { id: day.report.id, markedPaidAt: null },
+        data: { markedPaidAt: now, paidAmount: day.report.amountOwed, adjustmentNotifiedAmount: null },
+      }),
+    ])
+  );
+
+  return {
+    days,
+    total: roundAmount(days.reduce((sum, day) => sum + day.remaining, 0)),
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Card payment detection and matching
+ * A payment to a tracked card shows up as a credit on the card and, when the checking
+ * account is linked too, as an outflow from checking. Both are flagged isPayment and
+ * left out of spending totals. Only the card credit pays down days, since an outflow
+ * from checking can be paying any card. Each posted credit is applied once, marking the oldest
+ * unpaid daily reports it can cover in full as paid and putting what is left towards
+ * the next one as a partial payment; days already paid in part only need what remains.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import logger from './logger';
+import { getExchangeRate, roundAmount, transactionCurrency } from './currency';
+import { addLocalDays, localDateOf } from './localDate';
+import { getUnpaidDays, sumPayments } from './paymentStatus';
+import { getTrackedCreditAccountIds } from './trackedAccounts';
+
+// Plaid personal_finance_category.detailed for credit card payments, on either side
+const CARD_PAYMENT_CATEGORY = 'LOAN_PAYMENTS_CREDIT_CARD_PAYMENT';
+// Used for credits on a card when Plaid hasn't categorised the transaction
+const PAYMENT_NAME_PATTERN = /\b(payment|autopay)\b/i;
+// The card credit and the checking outflow for one payment can post a few days apart
+const PAYMENT_MATCH_WINDOW_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a transaction is a credit card payment rather than spending
+ */
+export function isCardPayment(transaction: {
+  name: string;
+  amount: number;
+  categoryPrimary: string | null;
+  categoryDetailed: string | null;
+}): boolean {
+  if (transaction.categoryDetailed === CARD_PAYMENT_CATEGORY) {
+    return true;
+  }
+
+  return !transaction.categoryPrimary && transaction.amount < 0 && PAYMENT_NAME_PATTERN.test(transaction.name);
+}
+
+/**
+ * Split a payment over unpaid report amounts, oldest first
+ * Returns how many reports the payment covers in full; it stops at the first one it can't
+ */
+export function countCoveredReports(paymentAmount: number, owedAmounts: number[]): number {
+  let remaining = paymentAmount;
+  let covered = 0;
+
+  for (const owed of owedAmounts) {
+    if (roundAmount(owed) > roundAmount(remaining)) {
+      break;
+    }
+    remaining -= owed;
+    covered++;
+  }
+
+  return covered;
+}
+
+/**
+ * Apply every unapplied payment of a user to their unpaid daily reports
+ * Waits while a backfill is running, since the reports it would cover don't exist yet.
+ * Returns the number of reports marked as paid.
+ */
+export async function applyCardPayments(userId: string): Promise<number> {
+  const activeBackfills = await prisma.plaidItem.count({
+    where: {
+      userId,
+      backfillStatus: { in: ['pending', 'waiting_for_history', 'waiting_for_accounts', 'computing_reports'] },
+    },
+  });
+
+  if (activeBackfills > 0) {
+    logger.debug('Backfill in progress, deferring payment matching', { userId });
+    return 0;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, homeCurrency: true },
+  });
+
+  if (!user || !user.timezone) {
+    return 0;
+  }
+
+  const creditAccountIds = await getTrackedCreditAccountIds(userId);
+  const accountSelection = await prisma.accountSelection.findUnique({
+    where: { userId },
+  });
+
+  // Credits on a tracked card, and outflows from checking to match against them
+  const sides: Prisma.TransactionWhereInput[] = [
+    { accountId: { in: creditAccountIds }, amount: { lt: 0 } },
+  ];
+  if (accountSelection?.checkingAccountId) {
+    sides.push({ accountId: accountSelection.checkingAccountId, amount: { gt: 0 } });
+  }
+
+  // Pending payments are applied once they post, so they aren't counted twice
+  const payments = await prisma.transaction.findMany({
+    where: {
+      userId,
+      isPayment: true,
+      pending: false,
+      retiredAt: null,
+      paymentAppliedAt: null,
+      OR: sides,
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  let coveredCount = 0;
+
+  for (const payment of payments) {
+    // A checking outflow may be paying a card that isn't tracked, so it never pays
+    // down days itself; it only confirms the credit on a tracked card, which does
+    if (!creditAccountIds.includes(payment.accountId)) {
+      const cardCredit = await prisma.transaction.findFirst({
+        where: {
+          userId,
+          accountId: { in: creditAccountIds },
+          isPayment: true,
+          retiredAt: null,
+          amount: payment.amount.negated(),
+          date: {
+            gte: new Date(payment.date.getTime() - PAYMENT_MATCH_WINDOW_DAYS * DAY_MS),
+            lte: new Date(payment.date.getTime() + PAYMENT_MATCH_WINDOW_DAYS * DAY_MS),
+          },
+        },
+      });
+
+      if (cardCredit || payment.date.getTime() < Date.now() - PAYMENT_MATCH_WINDOW_DAYS * DAY_MS) {
+        await prisma.transaction.update({
+          where: { id: payment.id },
+          data: { paymentAppliedAt: new Date() },
+        });
+        logger.debug(cardCredit ? 'Checking payment matched to a tracked card' : 'Checking payment not to a tracked card', {
+          userId,
+          transactionId: payment.id,
+          counterpartId: cardCredit?.id,
+        });
+      }
+      continue;
+    }
+
+    const rate = await getExchangeRate(transactionCurrency(payment), user.homeCurrency, payment.date);
+    if (rate === null) {
+      // Retried on the next sync, in case a rate becomes available
+      logger.debug('No exchange rate for payment, leaving it unapplied', { userId, transactionId: payment.id });
+      continue;
+    }
+    const amount = Math.abs(Number(payment.amount)) * rate;
+
+    // Covers spending up to and including the local day the payment was made
+    const paymentDay = localDateOf(payment.date, user.timezone);
+
+    // Same days as the unpaid balance, so backfilled days from before sign-up are left alone
+    const unpaidReports = (await getUnpaidDays(userId, addLocalDays(paymentDay, 1), user.timezone))
+      .map(day => ({ ...day.report, remaining: day.remaining }));
+
+    const covered = unpaidReports.slice(
+      0,
+      countCoveredReports(amount, unpaidReports.map(report => report.remaining))
+    );
+    // Whatever is left goes towards the next day as a partial payment
+    const leftover = roundAmount(amount - covered.reduce((sum, report) => sum + report.remaining, 0));
+    const partial = leftover > 0 ? unpaidReports[covered.length] : undefined;
+
+    if (covered.length === 0 && !partial) {
+      // Retried on the next sync, in case the days it pays for are still to be computed
+      logger.debug('Payment covers no unpaid days, leaving it unapplied', { userId, transactionId: payment.id });
+      continue;
+    }
+
+    // Paying more than every unpaid day up to the payment leaves money that no day needs
+    const overpaid = partial ? 0 : leftover;
+    if (overpaid > 0) {
+      logger.warn('Card payment is more than the unpaid days it covers, excess not applied', {
+        userId,
+        transactionId: payment.id,
+        overpaid,
+      });
+    }
+
+    const now = new Date();
+
+    await prisma.$transaction([
+      ...covered.map(report =>
+        prisma.dailyReportPayment.create({
+          data: {
+            dailyReportId: report.id,
+            source: 'card',
+            transactionId: payment.id,
+            amount: report.remaining,
+          },
+        })
+      ),
+      ...covered.map(report =>
+        prisma.dailyReport.updateMany({
+          where: { id: report.id, markedPaidAt: null },
+          data: { markedPaidAt: now, paidAmount: report.amountOwed, adjustmentNotifiedAmount: null },
+        })
+      ),
+      ...(partial
+        ? [
+            prisma.dailyReportPayment.create({
+              data: {
+                dailyReportId: partial.id,
+                source: 'card',
+                transactionId: payment.id,
+                amount: leftover,
+              },
+            }),
+          ]
+        : []),
+      prisma.transaction.update({
+        where: { id: payment.id },
+        data: { paymentAppliedAt: now },
+      }),
+    ]);
+
+    coveredCount += covered.length;
+
+    logger.info('Applied card payment to daily reports', {
+      userId,
+      transactionId: payment.id,
+      amount: roundAmount(amount),
+      coveredDays: covered.length,
+      partialAmount: partial ? leftover : 0,
+      overpaid,
+      unpaidDays: unpaidReports.length,
+    });
+  }
+
+  return coveredCount;
+}
+
+/**
+ * Undo what card payments did before they are deleted
+ * Days they paid in full go back to unpaid unless other payments still cover them, and
+ * a checking outflow that was only confirmed through one of them is matched again.
+ * Returns the number of days reopened.
+ */
+export async function releaseCardPayments(
+  tx: Prisma.TransactionClient,
+  payments: { id: string; userId: string; amount: Prisma.Decimal; date: Date }[]
+): Promise<number> {
+  if (payments.length === 0) {
+    return 0;
+  }
+
+  const paymentIds = payments.map(payment => payment.id);
+  const records = await tx.dailyReportPayment.findMany({
+    where: { transactionId: { in: paymentIds } },
+    select: { dailyReportId: true },
+  });
+
+  await tx.dailyReportPayment.deleteMany({
+    where: { transactionId: { in: paymentIds } },
+  });
+
+  const reports = await tx.dailyReport.findMany({
+    where: {
+      id: { in: records.map(record => record.dailyReportId) },
+      markedPaidAt: { not: null },
+    },
+    include: { payments: { select: { amount: true } } },
+  });
+  const reopened = reports.filter(report => sumPayments(report.payments) < roundAmount(Number(report.amountOwed)));
+
+  if (reopened.length > 0) {
+    await tx.dailyReport.updateMany({
+      where: { id: { in: reopened.map(report => report.id) } },
+      data: { markedPaidAt: null, paidAmount: null, adjustmentNotifiedAmount: null },
+    });
+  }
+
+  for (const payment of payments) {
+    await tx.transaction.updateMany({
+      where: {
+        userId: payment.userId,
+        id: { notIn: paymentIds },
+        isPayment: true,
+        paymentAppliedAt: { not: null },
+        coveredReports: { none: {} },
+        amount: payment.amount.negated(),
+        date: {
+          gte: new Date(payment.date.getTime() - PAYMENT_MATCH_WINDOW_DAYS * DAY_MS),
+          lte: new Date(payment.date.getTime() + PAYMENT_MATCH_WINDOW_DAYS * DAY_MS),
+        },
+      },
+      data: { paymentAppliedAt: null },
+    });
+  }
+
+  if (reopened.length > 0) {
+    logger.info('Reopened days paid by removed card payments', {
+      userId: payments[0].userId,
+      transactionIds: paymentIds,
+      reopenedDays: reopened.length,
+    });
+  }
+
+  return reopened.length;
+}
@@ -3,9 +3,30 @@
  */
 
 import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Configuration, JWKPublicKey, PlaidApi, PlaidEnvironments } from 'plaid';
+import { PlaidItem } from '@prisma/client';
 import { env } from '../config/env';
 import logger from './logger';
 import prisma from '../db';
+import { recomputeDailyReportsForDates } from '../jobs/computeDailyReports';
+import { removePlaidTransactions, scheduleItemSync } from '../jobs/syncTransactions';
+import { syncItemLiabilities } from '../jobs/syncLiabilities';
+import { applyCardPayments } from './payments';
+import { recordSyncFailure, recordSyncSuccess } from './syncState';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments] || PlaidEnvironments.sandbox,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
+      'PLAID-SECRET': process.env.PLAID_SECRET!,
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
 
 export interface PlaidWebhook {
   webhook_type: string;
@@ -22,32 +43,99 @@ export interface PlaidWebhook {
   [key: string]: any;
 }
 
+// Plaid signs each webhook with a short-lived ES256 JWT in the Plaid-Verification header
+const WEBHOOK_MAX_AGE_SECONDS = 5 * 60;
+// Cached keys are re-fetched after this long so rotated (expired) keys are noticed
+const JWK_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type WebhookKeyFetcher = (keyId: string) => Promise<JWKPublicKey>;
+
+const fetchKeyFromPlaid: WebhookKeyFetcher = async (keyId) => {
+  const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+  return response.data.key;
+};
+
+let webhookKeyFetcher: WebhookKeyFetcher = fetchKeyFromPlaid;
+const jwkCache = new Map<string, { key: JWKPublicKey; fetchedAt: number }>();
+
 /**
- * Verify webhook signature from Plaid
- * Plaid sends webhooks with a signature in the PLAID-SIGNATURE header
+ * Replace the function used to look up Plaid's verification keys (used by tests)
+ * Passing nothing restores the Plaid API lookup. The key cache is cleared either way.
  */
-export function verifyWebhookSignature(
+export function setWebhookKeyFetcher(fetcher?: WebhookKeyFetcher): void {
+  webhookKeyFetcher = fetcher || fetchKeyFromPlaid;
+  jwkCache.clear();
+}
+
+async function getVerificationKey(keyId: string): Promise<JWKPublicKey> {
+  const cached = jwkCache.get(keyId);
+  if (cached && Date.now() - cached.fetchedAt < JWK_CACHE_TTL_MS) {
+    return cached.key;
+  }
+
+  const key = await webhookKeyFetcher(keyId);
+  jwkCache.set(keyId, { key, fetchedAt: Date.now() });
+  return key;
+}
+
+/**
+ * Verify a webhook from Plaid
+ * Checks the Plaid-Verification JWT against Plaid's published key for its key id,
+ * rejects tokens older than five minutes and compares the request_body_sha256 claim
+ * with a hash of the raw body. Webhooks without the header are only accepted when
+ * verification is not required (PLAID_WEBHOOK_VERIFICATION_REQUIRED).
+ */
+export async function verifyWebhookSignature(
   body: string,
-  signature: string
-): boolean {
-  if (!env.plaidWebhookVerificationKey) {
-    logger.warn('Plaid webhook verification key not configured. Webhook verification skipped.');
-    return true; // Allow in development if key not set
+  verificationHeader: string | undefined
+): Promise<boolean> {
+  if (!verificationHeader) {
+    if (env.plaidWebhookVerificationRequired) {
+      logger.warn('Plaid webhook received without Plaid-Verification header');
+      return false;
+    }
+    logger.warn('Plaid webhook received without Plaid-Verification header. Webhook verification skipped.');
+    return true; // Allow in development when verification isn't required
   }
 
   try {
-    // Plaid uses HMAC-SHA256 for webhook signatures
-    const hmac = crypto.createHmac('sha256', env.plaidWebhookVerificationKey);
-    hmac.update(body);
-    const calculatedSignature = hmac.digest('hex');
-    
-    // Compare signatures using constant-time comparison
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(calculatedSignature)
-    );
+    const decoded = jwt.decode(verificationHeader, { complete: true });
+    if (!decoded || decoded.header.alg !== 'ES256' || !decoded.header.kid) {
+      logger.warn('Plaid webhook verification token is malformed or uses an unexpected algorithm', {
+        alg: decoded?.header.alg,
+      });
+      return false;
+    }
+
+    const jwk = await getVerificationKey(decoded.header.kid);
+    if (jwk.expired_at) {
+      logger.warn('Plaid webhook signed with an expired verification key', { kid: decoded.header.kid });
+      return false;
+    }
+
+    const publicKey = crypto.createPublicKey({
+      key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+      format: 'jwk',
+    });
+
+    const claims = jwt.verify(verificationHeader, publicKey, {
+      algorithms: ['ES256'],
+      maxAge: WEBHOOK_MAX_AGE_SECONDS,
+    }) as jwt.JwtPayload;
+
+    if (typeof claims.request_body_sha256 !== 'string') {
+      logger.warn('Plaid webhook verification token has no request_body_sha256 claim');
+      return false;
+    }
+
+    const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+    const expected = Buffer.from(claims.request_body_sha256);
+    const actual = Buffer.from(bodyHash);
+
+    // Compare hashes using constant-time comparison
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
   } catch (error) {
-    logger.error('Error verifying webhook signature', { error });
+    logger.warn('Plaid webhook verification failed', { error: (error as Error).message });
     return false;
   }
 }
@@ -92,6 +180,10 @@ export async function handlePlaidWebhook(webhook: PlaidWebhook): Promise<void> {
     case 'ITEM':
       await handleItemWebhook(webhook, plaidItem.id, plaidItem.userId);
       break;
+
+    case 'LIABILITIES':
+      await handleLiabilitiesWebhook(webhook, plaidItem);
+      break;
     
     default:
       logger.debug('Unhandled webhook type', { 
@@ -114,38 +206,16 @@ async function handleTransactionsWebhook(
 
   switch (webhook_code) {
     case 'INITIAL_UPDATE':
-      logger.info('Transactions initial update received', { 
-        plaidItemId, 
-        userId, 
-        new_transactions 
-      });
-      // Clear sync cursor to force full resync
-      await prisma.plaidItem.update({
-        where: { id: plaidItemId },
-        data: { syncCursor: null },
-      });
-      break;
-
     case 'HISTORICAL_UPDATE':
-      logger.info('Transactions historical update received', { 
-        plaidItemId, 
-        userId, 
-        new_transactions 
-      });
-      // Clear sync cursor to force full resync
-      await prisma.plaidItem.update({
-        where: { id: plaidItemId },
-        data: { syncCursor: null },
-      });
-      break;
-
     case 'DEFAULT_UPDATE':
-      logger.info('Transactions default update received', { 
+    case 'SYNC_UPDATES_AVAILABLE':
+      logger.info('Transactions update received, scheduling item sync', { 
+        webhook_code,
         plaidItemId, 
         userId, 
         new_transactions 
       });
-      // Incremental sync - cursor should handle this
+      scheduleItemSync(plaidItemId);
       break;
 
     case 'TRANSACTIONS_REMOVED':
@@ -154,16 +224,8 @@ async function handleTransactionsWebhook(
         userId, 
         removed_count: removed_transactions?.length || 0 
       });
-      // Remove transactions if needed
       if (removed_transactions && removed_transactions.length > 0) {
-        // Note: Plaid provides transaction_ids, but we store plaidTransactionId
-        // We'd need to map these or Plaid provides the IDs directly
-        // For now, log and handle in sync job
-        logger.debug('Transactions to remove', { 
-          transactionIds: removed_transactions,
-          plaidItemId,
-          userId
-        });
+        await removeTransactions(userId, removed_transactions);
       }
       break;
 
@@ -176,6 +238,55 @@ async function handleTransactionsWebhook(
   }
 }
 
+/**
+ * Delete transactions Plaid reported as removed and recompute the days they fell on
+ * The IDs in removed_transactions are Plaid transaction_ids, i.e. Transaction.plaidTransactionId
+ */
+async function removeTransactions(userId: string, plaidTransactionIds: string[]): Promise<void> {
+  const removedDates = await prisma.$transaction(tx => removePlaidTransactions(tx, userId, plaidTransactionIds));
+
+  if (removedDates.length === 0) {
+    logger.debug('No stored transactions matched removal webhook', { userId, plaidTransactionIds });
+    return;
+  }
+
+  logger.info('Deleted removed transactions', { userId, deletedCount: removedDates.length });
+
+  await recomputeDailyReportsForDates(userId, removedDates);
+  // Days a removed payment paid may now be covered by another one
+  await applyCardPayments(userId);
+}
+
+/**
+ * Handle LIABILITIES webhooks
+ * A failed refresh is rethrown so the webhook inbox retries it
+ */
+async function handleLiabilitiesWebhook(webhook: PlaidWebhook, plaidItem: PlaidItem): Promise<void> {
+  const { webhook_code } = webhook;
+
+  if (webhook_code !== 'DEFAULT_UPDATE') {
+    logger.debug('Unhandled LIABILITIES webhook code', {
+      webhook_code,
+      plaidItemId: plaidItem.id,
+      userId: plaidItem.userId,
+    });
+    return;
+  }
+
+  logger.info('Liabilities update received, refreshing liabilities', {
+    plaidItemId: plaidItem.id,
+    userId: plaidItem.userId,
+  });
+
+  try {
+    await syncItemLiabilities(plaidItem);
+    await recordSyncSuccess(plaidItem.id, 'liabilities');
+  } catch (error) {
+    await recordSyncFailure(plaidItem.id, 'liabilities', error);
+    throw error;
+  }
+}
+
 /**
  * Handle ITEM webhooks
  */
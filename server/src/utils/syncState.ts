@@ -0,0 +1,96 @@
+/**
+ * Per-item sync state
+ * Each PlaidItem has one PlaidItemSyncState row per sync type recording the last attempt,
+ * last success and failure streak. Scheduled syncs back off exponentially on items that
+ * keep failing instead of retrying them on every run.
+ */
+
+import { PlaidItemSyncState } from '@prisma/client';
+import prisma from '../db';
+import { extractPlaidError } from './plaidErrors';
+
+export type SyncType = 'transactions' | 'balances' | 'liabilities';
+
+const BASE_BACKOFF_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Delay before the next scheduled attempt after the given number of consecutive failures
+ */
+export function getBackoffDelayMs(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) {
+    return 0;
+  }
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, consecutiveFailures - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Whether a scheduled sync may attempt the item now
+ */
+export async function isSyncDue(plaidItemId: string, syncType: SyncType, now = new Date()): Promise<boolean> {
+  const state = await prisma.plaidItemSyncState.findUnique({
+    where: { plaidItemId_syncType: { plaidItemId, syncType } },
+    select: { nextAttemptAt: true },
+  });
+
+  return !state?.nextAttemptAt || state.nextAttemptAt <= now;
+}
+
+export async function recordSyncSuccess(plaidItemId: string, syncType: SyncType): Promise<PlaidItemSyncState> {
+  const now = new Date();
+
+  return prisma.plaidItemSyncState.upsert({
+    where: { plaidItemId_syncType: { plaidItemId, syncType } },
+    update: {
+      lastAttemptAt: now,
+      lastSuccessAt: now,
+      consecutiveFailures: 0,
+      lastErrorCode: null,
+      nextAttemptAt: null,
+    },
+    create: {
+      plaidItemId,
+      syncType,
+      lastAttemptAt: now,
+      lastSuccessAt: now,
+    },
+  });
+}
+
+/**
+ * Record a failed attempt and push the next allowed attempt out
+ * Errors that didn't come from Plaid are recorded as INTERNAL_ERROR
+ */
+export async function recordSyncFailure(
+  plaidItemId: string,
+  syncType: SyncType,
+  error: unknown
+): Promise<PlaidItemSyncState> {
+  const now = new Date();
+  const lastErrorCode = extractPlaidError(error)?.error_code || 'INTERNAL_ERROR';
+
+  const existing = await prisma.plaidItemSyncState.findUnique({
+    where: { plaidItemId_syncType: { plaidItemId, syncType } },
+    select: { consecutiveFailures: true },
+  });
+  const consecutiveFailures = (existing?.consecutiveFailures || 0) + 1;
+  const nextAttemptAt = new Date(now.getTime() + getBackoffDelayMs(consecutiveFailures));
+
+  return prisma.plaidItemSyncState.upsert({
+    where: { plaidItemId_syncType: { plaidItemId, syncType } },
+    update: {
+      lastAttemptAt: now,
+      consecutiveFailures,
+      lastErrorCode,
+      nextAttemptAt,
+    },
+    create: {
+      plaidItemId,
+      syncType,
+      lastAttemptAt: now,
+      consecutiveFailures,
+      lastErrorCode,
+      nextAttemptAt,
+    },
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Tracked credit card helpers
+ * A user can track any number of credit cards, each with its own on/off toggle.
+ * Users who picked a card before multi-card tracking existed have no TrackedAccount
+ * rows yet, so their AccountSelection.creditAccountId stands in as the only tracked card.
+ */
+
+import prisma from '../db';
+import { getExchangeRate, roundAmount, transactionCurrency } from './currency';
+
+export interface AccountTotal {
+  accountId: string;
+  totalAmount: number;
+  transactionCount: number;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  // In this currency, before conversion
+  totalAmount: number;
+  transactionCount: number;
+  // Whether the amount is included in the home-currency total
+  converted: boolean;
+}
+
+export interface SpendingSummary {
+  // Home currency that the amounts and the per-card totals are expressed in
+  currency: string;
+  // Net of purchases and refunds
+  totalAmount: number;
+  // Gross purchases
+  purchasesAmount: number;
+  // Refunds and statement credits, as a positive amount
+  refundsAmount: number;
+  transactionCount: number;
+  accounts: AccountTotal[];
+  currencies: CurrencyTotal[];
+}
+
+/**
+ * Get the Plaid account_ids of the credit cards currently counted in the user's totals
+ */
+export async function getTrackedCreditAccountIds(userId: string): Promise<string[]> {
+  const tracked = await prisma.trackedAccount.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (tracked.length > 0) {
+    return tracked.filter(t => t.enabled).map(t => t.accountId);
+  }
+
+  const accountSelection = await prisma.accountSelection.findUnique({
+    where: { userId },
+  });
+
+  return accountSelection?.creditAccountId ? [accountSelection.creditAccountId] : [];
+}
+
+/**
+ * Replace the set of tracked credit cards for a user
+ * Cards that were already tracked keep their on/off toggle. The first card is kept
+ * on AccountSelection.creditAccountId for clients that only know about one card.
+ */
+export async function setTrackedCreditAccounts(userId: string, accountIds: string[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.trackedAccount.deleteMany({
+      where: { userId, accountId: { notIn: accountIds } },
+    }),
+    ...accountIds.map(accountId =>
+      prisma.trackedAccount.upsert({
+        where: { userId_accountId: { userId, accountId } },
+        update: {},
+        create: { userId, accountId },
+      })
+    ),
+    prisma.accountSelection.upsert({
+      where: { userId },
+      update: {
+        creditAccountId: accountIds[0] || null,
+        updatedAt: new Date(),
+      },
+      create: {
+        userId,
+        creditAccountId: accountIds[0] || null,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Stop tracking the given credit cards, leaving any other tracked cards alone
+ */
+export async function untrackCreditAccounts(userId: string, accountIds: string[]): Promise<void> {
+  if (accountIds.length === 0) {
+    return;
+  }
+
+  await prisma.trackedAccount.deleteMany({
+    where: { userId, accountId: { in: accountIds } },
+  });
+
+  const accountSelection = await prisma.accountSelection.findUnique({
+    where: { userId },
+  });
+
+  if (accountSelection?.creditAccountId && accountIds.includes(accountSelection.creditAccountId)) {
+    const remaining = await prisma.trackedAccount.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    await prisma.accountSelection.update({
+      where: { userId },
+      data: {
+        creditAccountId: remaining?.accountId || null,
+        updatedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Total a set of transactions overall, per card and per currency
+ * Amounts are converted to the home currency at the rate for the given day. Currencies
+ * without a rate are reported in the per-currency breakdown but left out of the
+ * converted totals. Every tracked card gets an entry, including cards with no transactions.
+ */
+export async function summarizeSpending(
+  transactions: {
+    accountId: string;
+    amount: unknown;
+    isoCurrencyCode?: string | null;
+    unofficialCurrencyCode?: string | null;
+  }[],
+  trackedAccountIds: string[],
+  homeCurrency: string,
+  on: Date
+): Promise<SpendingSummary> {
+  const byAccount = new Map<string, AccountTotal>();
+  for (const accountId of trackedAccountIds) {
+    byAccount.set(accountId, { accountId, totalAmount: 0, transactionCount: 0 });
+  }
+
+  const byCurrency = new Map<string, CurrencyTotal>();
+  const rates = new Map<string, number | null>();
+  let purchasesAmount = 0;
+  let refundsAmount = 0;
+
+  for (const transaction of transactions) {
+    const currency = transactionCurrency(transaction);
+    const amount = Number(transaction.amount);
+
+    if (!rates.has(currency)) {
+      rates.set(currency, await getExchangeRate(currency, homeCurrency, on));
+    }
+    const rate = rates.get(currency)!;
+
+    const currencyEntry = byCurrency.get(currency)
+      || { currency, totalAmount: 0, transactionCount: 0, converted: rate !== null };
+    currencyEntry.totalAmount += amount;
+    currencyEntry.transactionCount++;
+    byCurrency.set(currency, currencyEntry);
+
+    const accountEntry = byAccount.get(transaction.accountId)
+      || { accountId: transaction.accountId, totalAmount: 0, transactionCount: 0 };
+    if (rate !== null) {
+      accountEntry.totalAmount += amount * rate;
+      // Plaid amounts are positive for purchases and negative for refunds and credits
+      if (amount > 0) {
+        purchasesAmount += amount * rate;
+      } else {
+        refundsAmount -= amount * rate;
+      }
+    }
+    accountEntry.transactionCount++;
+    byAccount.set(transaction.accountId, accountEntry);
+  }
+
+  const accounts = Array.from(byAccount.values()).map(account => ({
+    ...account,
+    totalAmount: roundAmount(account.totalAmount),
+  }));
+  const currencies = Array.from(byCurrency.values()).map(entry => ({
+    ...entry,
+    totalAmount: roundAmount(entry.totalAmount),
+  }));
+
+  return {
+    currency: homeCurrency,
+    totalAmount: roundAmount(accounts.reduce((sum, a) => sum + a.totalAmount, 0)),
+    purchasesAmount: roundAmount(purchasesAmount),
+    refundsAmount: roundAmount(refundsAmount),
+    transactionCount: accounts.reduce((sum, a) => sum + a.transactionCount, 0),
+    accounts,
+    currencies,
+  };
+}
+
+/**
+ * What the user has to pay to clear a day's spending
+ * Refunds and credits only reduce it when the user opted in, and it never goes negative
+ */
+export function amountOwed(
+  summary: { totalAmount: number; purchasesAmount: number },
+  refundsReduceOwed: boolean
+): number {
+  return refundsReduceOwed ? Math.max(summary.totalAmount, 0) : summary.purchasesAmount;
+}
+
+/**
+ * Replace the per-card and per-currency breakdowns stored for a daily report
+ */
+export async function saveReportBreakdown(dailyReportId: string, summary: SpendingSummary): Promise<void> {
+  await prisma.$transaction([
+    prisma.dailyReportAccount.deleteMany({
+      where: { dailyReportId },
+    }),
+    prisma.dailyReportCurrency.deleteMany({
+      where: { dailyReportId },
+    }),
+    ...summary.accounts.map(account =>
+      prisma.dailyReportAccount.create({
+        data: {
+          dailyReportId,
+          accountId: account.accountId,
+          totalAmount: account.totalAmount,
+          transactionCount: account.transactionCount,
+        },
+      })
+    ),
+    ...summary.currencies.map(entry =>
+      prisma.dailyReportCurrency.create({
+        data: {
+          dailyReportId,
+          currency: entry.currency,
+          totalAmount: entry.totalAmount,
+          transactionCount: entry.transactionCount,
+          converted: entry.converted,
+        },
+      })
+    ),
+  ]);
+}
+
+/**
+ * Attach the cached card name and mask to per-card totals for API responses
+ */
+export async function describeAccountTotals(userId: string, accounts: AccountTotal[]) {
+  const cached = await prisma.account.findMany({
+    where: { userId, accountId: { in: accounts.map(a => a.accountId) } },
+    select: { accountId: true, name: true, mask: true },
+  });
+  const byId = new Map(cached.map(a => [a.accountId, a]));
+
+  return accounts.map(account => ({
+    accountId: account.accountId,
+    name: byId.get(account.accountId)?.name || null,
+    mask: byId.get(account.accountId)?.mask || null,
+    totalAmount: account.totalAmount,
+    transactionCount: account.transactionCount,
+  }));
+}